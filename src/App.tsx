@@ -6,9 +6,20 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { RequireRole } from "@/components/layout/RequireRole";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import LeaveRequest from "./pages/LeaveRequest";
+import MyRequests from "./pages/MyRequests";
+import TeamRequests from "./pages/TeamRequests";
+import OrgChart from "./pages/OrgChart";
+import AdminUsers from "./pages/AdminUsers";
+import AdminImport from "./pages/AdminImport";
+import AdminDepartments from "./pages/AdminDepartments";
+import AdminPolicies from "./pages/AdminPolicies";
+import AdminLeaveTypes from "./pages/AdminLeaveTypes";
+import AdminYearEnd from "./pages/AdminYearEnd";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,6 +38,38 @@ const App = () => (
               <Route path="/dashboard" element={<AppLayout />}>
                 <Route index element={<Dashboard />} />
               </Route>
+              <Route path="/leave" element={<AppLayout />}>
+                <Route path="request" element={<LeaveRequest />} />
+                <Route path="my-requests" element={<MyRequests />} />
+                <Route
+                  path="team-requests"
+                  element={
+                    <RequireRole roles={["manager", "admin"]}>
+                      <TeamRequests />
+                    </RequireRole>
+                  }
+                />
+              </Route>
+              <Route path="/org-chart" element={<AppLayout />}>
+                <Route
+                  index
+                  element={
+                    <RequireRole roles={["manager", "admin"]}>
+                      <OrgChart />
+                    </RequireRole>
+                  }
+                />
+              </Route>
+              <Route path="/admin" element={<AppLayout />}>
+                <Route element={<RequireRole roles={["admin"]} />}>
+                  <Route path="users" element={<AdminUsers />} />
+                  <Route path="import" element={<AdminImport />} />
+                  <Route path="departments" element={<AdminDepartments />} />
+                  <Route path="policies" element={<AdminPolicies />} />
+                  <Route path="leave-types" element={<AdminLeaveTypes />} />
+                  <Route path="year-end" element={<AdminYearEnd />} />
+                </Route>
+              </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
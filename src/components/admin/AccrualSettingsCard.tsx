@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { describeError } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+// Pay period settings and a manual trigger for the daily accrual job
+export function AccrualSettingsCard() {
+  const [anchor, setAnchor] = useState('');
+  const [days, setDays] = useState('');
+  const [saved, setSaved] = useState({ anchor: '', days: '' });
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('org_settings')
+      .select('pay_period_anchor, pay_period_days')
+      .single()
+      .then(({ data }) => {
+        if (!data) return;
+        const settings = { anchor: data.pay_period_anchor, days: String(data.pay_period_days) };
+        setAnchor(settings.anchor);
+        setDays(settings.days);
+        setSaved(settings);
+      });
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const length = Number(days);
+    if (!anchor || !Number.isInteger(length) || length < 7 || length > 31) {
+      toast({
+        title: 'Invalid Pay Period',
+        description: 'Choose a start date and a length between 7 and 31 days.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('org_settings')
+        .update({ pay_period_anchor: anchor, pay_period_days: length })
+        .eq('id', true);
+
+      if (error) {
+        toast({ title: 'Update Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      setSaved({ anchor, days });
+      toast({ title: 'Pay Periods Updated', description: 'Pay period accruals for this year were recalculated.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.rpc('run_leave_accruals');
+      if (error) {
+        toast({ title: 'Accrual Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: 'Accruals Posted',
+        description: data === 0 ? 'Everything was already up to date.' : `${data} accrual ${data === 1 ? 'entry was' : 'entries were'} posted.`,
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Accruals</CardTitle>
+          <CardDescription>
+            Accruals are posted to each employee's balance every night. Each run posts only the difference from
+            what was already posted, so running them again is safe.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+          {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Run Now
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pay-period-anchor">A pay period starts on</Label>
+            <Input
+              id="pay-period-anchor"
+              type="date"
+              className="h-8 w-44"
+              value={anchor}
+              onChange={(e) => setAnchor(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay-period-days">Pay period length (days)</Label>
+            <Input
+              id="pay-period-days"
+              className="h-8 w-24"
+              inputMode="numeric"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={saving || (anchor === saved.anchor && days === saved.days)}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
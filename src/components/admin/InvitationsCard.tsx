@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { UserRole, USER_ROLES, formatRole } from '@/lib/roles';
+import { describeError } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Department } from '@/hooks/use-departments';
+import { toast } from '@/hooks/use-toast';
+import { Copy, Loader2, UserPlus } from 'lucide-react';
+
+interface Invitation {
+  id: string;
+  email: string;
+  token: string;
+  role: UserRole;
+  department_id: string | null;
+  expires_at: string;
+}
+
+interface InvitationsCardProps {
+  managers: { id: string; first_name: string; last_name: string }[];
+  departments: Department[];
+}
+
+const NO_MANAGER = 'none';
+const NO_DEPARTMENT = 'none';
+
+const emptyInvite = { email: '', role: 'employee' as UserRole, department_id: NO_DEPARTMENT, manager_id: NO_MANAGER };
+
+const inviteLink = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
+export function InvitationsCard({ managers, departments }: InvitationsCardProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [allowOpenSignup, setAllowOpenSignup] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [invite, setInvite] = useState(emptyInvite);
+
+  useEffect(() => {
+    fetchInvitations();
+    supabase
+      .from('org_settings')
+      .select('allow_open_signup')
+      .single()
+      .then(({ data }) => {
+        if (data) setAllowOpenSignup(data.allow_open_signup);
+      });
+  }, []);
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from('invitations')
+      .select('id, email, token, role, department_id, expires_at')
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching invitations:', error);
+      return;
+    }
+    setInvitations(data || []);
+  };
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    toast({ title: 'Link Copied', description: 'Send the invitation link to the new employee.' });
+  };
+
+  const handleOpenSignupChange = async (allow: boolean) => {
+    const { error } = await supabase.from('org_settings').update({ allow_open_signup: allow }).eq('id', true);
+    if (error) {
+      toast({ title: 'Update Failed', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setAllowOpenSignup(allow);
+    toast({
+      title: allow ? 'Open Sign-up Enabled' : 'Open Sign-up Disabled',
+      description: allow ? 'Anyone can create an employee account.' : 'New accounts now require an invitation.',
+    });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .insert({
+          email: invite.email.trim(),
+          role: invite.role,
+          department_id: invite.department_id === NO_DEPARTMENT ? null : invite.department_id,
+          manager_id: invite.manager_id === NO_MANAGER ? null : invite.manager_id,
+        })
+        .select('token')
+        .single();
+
+      if (error) {
+        toast({
+          title: 'Invitation Failed',
+          description: error.code === '23505' ? 'This email already has an open invitation.' : describeError(error),
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      await copyLink(data.token);
+      setInvite(emptyInvite);
+      setDialogOpen(false);
+      fetchInvitations();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    const { error } = await supabase
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitation.id);
+
+    if (error) {
+      toast({ title: 'Revoke Failed', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Invitation Revoked', description: `The invitation for ${invitation.email} was revoked.` });
+    }
+    fetchInvitations();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Invitations</CardTitle>
+          <CardDescription>Invite employees with their role, department and manager already set.</CardDescription>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite User
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleInvite} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Invite a new user</DialogTitle>
+                <DialogDescription>
+                  The invitation link is copied to your clipboard and expires after 7 days.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={invite.email}
+                  onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={invite.role} onValueChange={(value) => setInvite({ ...invite, role: value as UserRole })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {formatRole(role)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Department</Label>
+                  <Select
+                    value={invite.department_id}
+                    onValueChange={(value) => setInvite({ ...invite, department_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                      {departments.map((department) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Manager</Label>
+                <Select value={invite.manager_id} onValueChange={(value) => setInvite({ ...invite, manager_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                    {managers.map((manager) => (
+                      <SelectItem key={manager.id} value={manager.id}>
+                        {manager.first_name} {manager.last_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={submitting}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create Invitation
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="open-signup">Allow open sign-up</Label>
+            <p className="text-xs text-muted-foreground">
+              When off, new accounts can only be created from an invitation link.
+            </p>
+          </div>
+          <Switch id="open-signup" checked={allowOpenSignup} onCheckedChange={handleOpenSignupChange} />
+        </div>
+
+        {invitations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open invitations.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">{invitation.email}</TableCell>
+                  <TableCell>{formatRole(invitation.role)}</TableCell>
+                  <TableCell>
+                    {departments.find((department) => department.id === invitation.department_id)?.name ?? '—'}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {parseISO(invitation.expires_at) < new Date() ? 'Expired' : format(parseISO(invitation.expires_at), 'PP')}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(invitation.token)}>
+                      <Copy className="mr-1 h-3 w-3" />
+                      Copy Link
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)}>
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { UpdateRequest, runUpdate } from '@/lib/run-update';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { OfficeLocation } from '@/hooks/use-locations';
+import { Plus } from 'lucide-react';
+
+interface LocationsCardProps {
+  locations: OfficeLocation[];
+  members: { location_id: string | null }[];
+  onChange: () => void;
+}
+
+export function LocationsCard({ locations, members, onChange }: LocationsCardProps) {
+  const [newName, setNewName] = useState('');
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+
+  const updateLocations = async (request: UpdateRequest, success: string) => {
+    await runUpdate(request, {
+      title: 'Locations Updated',
+      success,
+      errors: {
+        '23505': 'A location with this name already exists.',
+        '23503': 'Leave policies apply to this location, so it cannot be deleted.',
+      },
+    });
+    onChange();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setNewName('');
+    updateLocations(supabase.from('locations').insert({ name }), `${name} was added.`);
+  };
+
+  const handleRename = (location: OfficeLocation) => {
+    const draft = nameDrafts[location.id]?.trim();
+    setNameDrafts(({ [location.id]: _, ...rest }) => rest);
+    if (!draft || draft === location.name) return;
+
+    updateLocations(
+      supabase.from('locations').update({ name: draft }).eq('id', location.id),
+      `${location.name} was renamed to ${draft}.`
+    );
+  };
+
+  const handleDelete = (location: OfficeLocation) => {
+    updateLocations(supabase.from('locations').delete().eq('id', location.id), `${location.name} was deleted.`);
+  };
+
+  const memberCount = (locationId: string) => members.filter(member => member.location_id === locationId).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Locations</CardTitle>
+          <CardDescription>Offices or countries employees work from. Leave policies can differ by location.</CardDescription>
+        </div>
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            className="h-9 w-48"
+            placeholder="New location"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </form>
+      </CardHeader>
+      <CardContent>
+        {locations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No locations yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {locations.map((location) => {
+                const count = memberCount(location.id);
+                return (
+                  <TableRow key={location.id}>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-48"
+                        value={nameDrafts[location.id] ?? location.name}
+                        onChange={(e) => setNameDrafts({ ...nameDrafts, [location.id]: e.target.value })}
+                        onBlur={() => handleRename(location)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{count}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" disabled={count > 0} onClick={() => handleDelete(location)}>
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { formatRole } from '@/lib/roles';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { SidebarTrigger } from '@/components/ui/sidebar';
@@ -8,7 +9,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Moon, Sun, LogOut, User } from 'lucide-react';
 
 export function AppHeader() {
-  const { profile, signOut } = useAuth();
+  const { profile, primaryRole, signOut } = useAuth();
   const { theme, setTheme } = useTheme();
 
   const getInitials = (firstName: string, lastName: string) => {
@@ -65,7 +66,7 @@ export function AppHeader() {
                   {profile ? `${profile.first_name} ${profile.last_name}` : 'User'}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {profile?.role || 'Employee'}
+                  {formatRole(primaryRole)}
                 </p>
               </div>
             </div>
@@ -21,7 +21,12 @@ import {
   Calendar,
   Clock,
   CheckSquare,
-  BarChart3
+  BarChart3,
+  Building2,
+  Network,
+  Tags,
+  Upload,
+  CalendarClock
 } from 'lucide-react';
 
 const employeeItems = [
@@ -35,6 +40,7 @@ const managerItems = [
   { title: 'Dashboard', url: '/dashboard', icon: LayoutDashboard },
   { title: 'Team Requests', url: '/leave/team-requests', icon: CheckSquare },
   { title: 'Team Calendar', url: '/calendar', icon: Calendar },
+  { title: 'Org Chart', url: '/org-chart', icon: Network },
   { title: 'Reports', url: '/reports', icon: BarChart3 },
 ];
 
@@ -42,25 +48,33 @@ const adminItems = [
   { title: 'Dashboard', url: '/dashboard', icon: LayoutDashboard },
   { title: 'All Requests', url: '/admin/requests', icon: FileText },
   { title: 'Manage Users', url: '/admin/users', icon: Users },
+  { title: 'Org Chart', url: '/org-chart', icon: Network },
+  { title: 'Import Users', url: '/admin/import', icon: Upload },
+  { title: 'Departments', url: '/admin/departments', icon: Building2 },
   { title: 'Leave Policies', url: '/admin/policies', icon: Settings },
+  { title: 'Leave Types', url: '/admin/leave-types', icon: Tags },
+  { title: 'Year-End Rollover', url: '/admin/year-end', icon: CalendarClock },
   { title: 'Holidays', url: '/admin/holidays', icon: Calendar },
   { title: 'Analytics', url: '/admin/analytics', icon: BarChart3 },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
-  const { profile } = useAuth();
+  const { hasRole } = useAuth();
   const location = useLocation();
 
+  // Users can hold several roles; show each role's items once
   const getNavigationItems = () => {
-    switch (profile?.role) {
-      case 'admin':
-        return adminItems;
-      case 'manager':
-        return [...employeeItems, ...managerItems];
-      default:
-        return employeeItems;
-    }
+    const sections = [employeeItems];
+    if (hasRole('manager')) sections.push(managerItems);
+    if (hasRole('admin')) sections.push(adminItems);
+
+    const seen = new Set<string>();
+    return sections.flat().filter((item) => {
+      if (seen.has(item.url)) return false;
+      seen.add(item.url);
+      return true;
+    });
   };
 
   const items = getNavigationItems();
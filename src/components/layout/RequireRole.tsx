@@ -0,0 +1,31 @@
+import React from 'react';
+import { Outlet } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserRole } from '@/lib/roles';
+import Forbidden from '@/pages/Forbidden';
+import { Loader2 } from 'lucide-react';
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  children?: React.ReactNode;
+}
+
+// Renders its children (or nested routes) only for users holding one of the roles.
+// Must be used inside AppLayout, which already handles signed-out users.
+export function RequireRole({ roles, children }: RequireRoleProps) {
+  const { profile, hasRole } = useAuth();
+
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!roles.some(role => hasRole(role))) {
+    return <Forbidden />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+}
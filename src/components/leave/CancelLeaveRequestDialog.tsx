@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { describeError } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+
+interface CancelLeaveRequestDialogProps {
+  request: { id: string; status: string };
+  onCancelled: () => void;
+}
+
+export function CancelLeaveRequestDialog({ request, onCancelled }: CancelLeaveRequestDialogProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Approved leave only changes once the manager confirms the cancellation
+  const isWithdrawal = request.status === 'pending';
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('cancel_leave_request', {
+        p_request_id: request.id,
+        p_reason: reason.trim() || null,
+      });
+
+      if (error) {
+        toast({
+          title: 'Cancellation Failed',
+          description: describeError(error),
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: isWithdrawal ? 'Request Withdrawn' : 'Cancellation Requested',
+          description: isWithdrawal
+            ? 'Your leave request has been withdrawn.'
+            : 'Your manager has been asked to confirm the cancellation.',
+        });
+        setReason('');
+        onCancelled();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          {isWithdrawal ? 'Withdraw Request' : 'Request Cancellation'}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{isWithdrawal ? 'Withdraw this request?' : 'Cancel approved leave?'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {isWithdrawal
+              ? 'The request will be cancelled immediately.'
+              : 'Your manager must confirm the cancellation. The days are returned to your balance once confirmed.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="cancellation-reason">Reason (optional)</Label>
+          <Textarea
+            id="cancellation-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Request</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm} disabled={submitting}>
+            {isWithdrawal ? 'Withdraw' : 'Request Cancellation'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { LeaveTypeLabel } from '@/components/leave/LeaveTypeLabel';
+
+export type LeaveBalance = Database['public']['Functions']['get_leave_balances']['Returns'][number];
+
+interface LeaveBalanceCardsProps {
+  employeeId: string;
+  year?: number;
+}
+
+export function LeaveBalanceCards({ employeeId, year = new Date().getFullYear() }: LeaveBalanceCardsProps) {
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const leaveTypes = useLeaveTypes();
+
+  useEffect(() => {
+    supabase
+      .rpc('get_leave_balances', { p_employee_id: employeeId, p_year: year })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching leave balances:', error);
+          return;
+        }
+        // Types without a quota (e.g. "other") have nothing meaningful to show
+        setBalances((data || []).filter(balance => balance.entitlement > 0));
+      });
+  }, [employeeId, year]);
+
+  if (balances.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      {balances.map((balance) => {
+        const used = balance.taken + balance.pending;
+        return (
+          <Card key={balance.leave_type}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">
+                <LeaveTypeLabel leaveTypes={leaveTypes} id={balance.leave_type} />
+              </CardTitle>
+              <span className="text-xs text-muted-foreground">{balance.year}</span>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="text-2xl font-bold">
+                {balance.remaining}
+                <span className="text-sm font-normal text-muted-foreground"> / {balance.entitlement} days left</span>
+              </div>
+              <Progress value={Math.min(100, (used / balance.entitlement) * 100)} />
+              <p className="text-xs text-muted-foreground">
+                {balance.taken} taken · {balance.pending} pending
+              </p>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
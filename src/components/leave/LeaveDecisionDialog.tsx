@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface LeaveDecisionDialogProps {
+  decision: 'approve' | 'reject' | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (comment: string) => Promise<void>;
+  count?: number;
+}
+
+// A rejection needs a reason; an approval comment is optional
+export function LeaveDecisionDialog({ decision, onOpenChange, onConfirm, count = 1 }: LeaveDecisionDialogProps) {
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isReject = decision === 'reject';
+  const noun = count === 1 ? 'leave request' : `${count} leave requests`;
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      await onConfirm(comment.trim());
+      setComment('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!decision} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isReject ? `Reject ${noun}` : `Approve ${noun}`}</DialogTitle>
+          <DialogDescription>
+            {isReject ? 'The reason is shared with the employee.' : 'Optionally add a note for the employee.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="decision-comment">{isReject ? 'Reason' : 'Comment'}</Label>
+          <Textarea
+            id="decision-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={isReject ? 'e.g. Team is at minimum staffing that week' : 'e.g. Enjoy your time off!'}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant={isReject ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={submitting || (isReject && !comment.trim())}
+          >
+            {isReject ? 'Reject' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
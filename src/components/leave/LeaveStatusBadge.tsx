@@ -0,0 +1,17 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+
+export function LeaveStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case 'approved':
+      return <Badge variant="default" className="bg-success text-success-foreground">Approved</Badge>;
+    case 'rejected':
+      return <Badge variant="destructive">Rejected</Badge>;
+    case 'pending':
+      return <Badge variant="secondary">Pending</Badge>;
+    case 'cancelled':
+      return <Badge variant="outline">Cancelled</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+}
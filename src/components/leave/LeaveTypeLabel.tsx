@@ -0,0 +1,27 @@
+import React from 'react';
+import { Calendar } from 'lucide-react';
+import { LeaveType, leaveTypeName } from '@/lib/leave';
+import { LEAVE_TYPE_ICONS } from '@/lib/leave-icons';
+import { cn } from '@/lib/utils';
+
+export function LeaveTypeIcon({ leaveType, className }: { leaveType?: LeaveType; className?: string }) {
+  const Icon = LEAVE_TYPE_ICONS[leaveType?.icon] ?? Calendar;
+  return <Icon className={cn('h-4 w-4 shrink-0', className)} style={{ color: leaveType?.color }} />;
+}
+
+export function LeaveTypeLabel({
+  leaveTypes,
+  id,
+  className,
+}: {
+  leaveTypes: LeaveType[];
+  id: string;
+  className?: string;
+}) {
+  return (
+    <span className={cn('inline-flex items-center gap-2', className)}>
+      <LeaveTypeIcon leaveType={leaveTypes.find(type => type.id === id)} />
+      {leaveTypeName(leaveTypes, id)}
+    </span>
+  );
+}
@@ -1,24 +1,37 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { UserRole, getPrimaryRole } from '@/lib/roles';
 
-interface Profile {
-  id: string;
-  email: string;
+// Fields users can change on their own profile
+export interface EditableProfileFields {
   first_name: string;
   last_name: string;
-  role: 'employee' | 'manager' | 'admin';
+}
+
+// Fields only admins can change, through the set_user_* RPCs
+interface ManagedProfileFields {
   manager_id?: string;
-  department?: string;
+  department_id?: string;
+  location_id?: string;
+  is_active: boolean;
+}
+
+interface Profile extends EditableProfileFields, ManagedProfileFields {
+  id: string;
+  email: string;
 }
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
+  roles: UserRole[];
+  primaryRole: UserRole;
+  hasRole: (role: UserRole) => boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signUp: (email: string, password: string, userData: { first_name: string; last_name: string; role?: string }) => Promise<{ error: any }>;
+  signUp: (email: string, password: string, userData: { first_name: string; last_name: string; invite_token?: string }) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
 
@@ -28,9 +41,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [roles, setRoles] = useState<UserRole[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    const loadProfile = async (userId: string) => {
+      const [{ data: profileData }, { data: roleData }] = await Promise.all([
+        supabase.from('profiles').select('*').eq('id', userId).single(),
+        supabase.from('user_roles').select('role').eq('user_id', userId),
+      ]);
+
+      setProfile(profileData);
+      setRoles((roleData || []).map(row => row.role));
+    };
+
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       async (event, session) => {
@@ -39,17 +63,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         if (session?.user) {
           // Fetch user profile
-          setTimeout(async () => {
-            const { data: profileData } = await supabase
-              .from('profiles')
-              .select('*')
-              .eq('id', session.user.id)
-              .single();
-            
-            setProfile(profileData);
+          setTimeout(() => {
+            loadProfile(session.user.id);
           }, 0);
         } else {
           setProfile(null);
+          setRoles([]);
         }
         
         setLoading(false);
@@ -62,15 +81,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', session.user.id)
-          .single()
-          .then(({ data: profileData }) => {
-            setProfile(profileData);
-            setLoading(false);
-          });
+        loadProfile(session.user.id).then(() => {
+          setLoading(false);
+        });
       } else {
         setLoading(false);
       }
@@ -87,7 +100,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { error };
   };
 
-  const signUp = async (email: string, password: string, userData: { first_name: string; last_name: string; role?: string }) => {
+  const signUp = async (email: string, password: string, userData: { first_name: string; last_name: string; invite_token?: string }) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
@@ -98,7 +111,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         data: {
           first_name: userData.first_name,
           last_name: userData.last_name,
-          role: userData.role || 'employee'
+          invite_token: userData.invite_token
         }
       }
     });
@@ -113,6 +126,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     session,
     profile,
+    roles,
+    primaryRole: getPrimaryRole(roles),
+    hasRole: (role: UserRole) => roles.includes(role),
     loading,
     signIn,
     signUp,
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Department {
+  id: string;
+  name: string;
+  head_id: string | null;
+  parent_id: string | null;
+}
+
+export function useDepartments() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('departments')
+      .select('id, name, head_id, parent_id')
+      .order('name', { ascending: true })
+      .then(({ data }) => {
+        setDepartments(data || []);
+      });
+  }, []);
+
+  return departments;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export function useHolidays() {
+  const [holidays, setHolidays] = useState<string[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('holidays')
+      .select('date')
+      .then(({ data }) => {
+        setHolidays((data || []).map(holiday => holiday.date));
+      });
+  }, []);
+
+  return holidays;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LeaveType } from '@/lib/leave';
+
+// All leave types, including archived ones so old requests keep their labels
+export function useLeaveTypes() {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('leave_types')
+      .select('id, name, color, icon, is_paid, requires_reason, is_active')
+      .order('name', { ascending: true })
+      .then(({ data }) => {
+        setLeaveTypes(data || []);
+      });
+  }, []);
+
+  return leaveTypes;
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface OfficeLocation {
+  id: string;
+  name: string;
+}
+
+export function useLocations() {
+  const [locations, setLocations] = useState<OfficeLocation[]>([]);
+
+  const refresh = useCallback(() => {
+    supabase
+      .from('locations')
+      .select('id, name')
+      .order('name', { ascending: true })
+      .then(({ data }) => {
+        setLocations(data || []);
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { locations, refresh };
+}
@@ -14,6 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      departments: {
+        Row: {
+          created_at: string
+          head_id: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          head_id?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          head_id?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departments_head_id_fkey"
+            columns: ["head_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "departments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       holidays: {
         Row: {
           created_at: string
@@ -38,81 +80,330 @@ export type Database = {
         }
         Relationships: []
       }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          department_id: string | null
+          email: string
+          expires_at: string
+          first_name: string | null
+          id: string
+          invited_by: string | null
+          last_name: string | null
+          manager_id: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          department_id?: string | null
+          email: string
+          expires_at?: string
+          first_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_name?: string | null
+          manager_id?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          department_id?: string | null
+          email?: string
+          expires_at?: string
+          first_name?: string | null
+          id?: string
+          invited_by?: string | null
+          last_name?: string | null
+          manager_id?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_manager_id_fkey"
+            columns: ["manager_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_balance_ledger: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          employee_id: string
+          entry_type: string
+          expires_on: string | null
+          id: string
+          leave_type: string
+          note: string | null
+          policy_id: string | null
+          rollover_id: string | null
+          source_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          effective_date: string
+          employee_id: string
+          entry_type: string
+          expires_on?: string | null
+          id?: string
+          leave_type: string
+          note?: string | null
+          policy_id?: string | null
+          rollover_id?: string | null
+          source_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          employee_id?: string
+          entry_type?: string
+          expires_on?: string | null
+          id?: string
+          leave_type?: string
+          note?: string | null
+          policy_id?: string | null
+          rollover_id?: string | null
+          source_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_balance_ledger_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_ledger_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_ledger_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_ledger_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "leave_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_ledger_rollover_id_fkey"
+            columns: ["rollover_id"]
+            isOneToOne: false
+            referencedRelation: "leave_rollovers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_balance_ledger_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "leave_balance_ledger"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leave_policies: {
         Row: {
+          accrual_schedule: string
           annual_quota: number
+          carryover_expiry_months: number | null
+          changed_by: string | null
           created_at: string
+          department_id: string | null
+          effective_from: string
+          effective_to: string | null
+          employee_id: string | null
           id: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
+          leave_type: string
+          location_id: string | null
+          max_carryover_days: number
           max_consecutive_days: number | null
           requires_approval: boolean | null
           updated_at: string
         }
         Insert: {
+          accrual_schedule?: string
           annual_quota?: number
+          carryover_expiry_months?: number | null
+          changed_by?: string | null
           created_at?: string
+          department_id?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          employee_id?: string | null
           id?: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
+          leave_type: string
+          location_id?: string | null
+          max_carryover_days?: number
           max_consecutive_days?: number | null
           requires_approval?: boolean | null
           updated_at?: string
         }
         Update: {
+          accrual_schedule?: string
           annual_quota?: number
+          carryover_expiry_months?: number | null
+          changed_by?: string | null
           created_at?: string
+          department_id?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          employee_id?: string | null
           id?: string
-          leave_type?: Database["public"]["Enums"]["leave_type"]
+          leave_type?: string
+          location_id?: string | null
+          max_carryover_days?: number
           max_consecutive_days?: number | null
           requires_approval?: boolean | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "leave_policies_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_policies_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_policies_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_policies_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_policies_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       leave_requests: {
         Row: {
           approved_at: string | null
           approved_by: string | null
+          approver_comment: string | null
+          auto_approved: boolean
+          cancellation_reason: string | null
+          cancellation_requested_at: string | null
           created_at: string
           custom_reason: string | null
           description: string | null
           employee_id: string
           end_date: string
           id: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
+          leave_type: string
           rejection_reason: string | null
           start_date: string
           status: Database["public"]["Enums"]["leave_status"]
           updated_at: string
+          working_days: number
         }
         Insert: {
           approved_at?: string | null
           approved_by?: string | null
+          approver_comment?: string | null
+          auto_approved?: boolean
+          cancellation_reason?: string | null
+          cancellation_requested_at?: string | null
           created_at?: string
           custom_reason?: string | null
           description?: string | null
           employee_id: string
           end_date: string
           id?: string
-          leave_type: Database["public"]["Enums"]["leave_type"]
+          leave_type: string
           rejection_reason?: string | null
           start_date: string
           status?: Database["public"]["Enums"]["leave_status"]
           updated_at?: string
+          working_days?: number
         }
         Update: {
           approved_at?: string | null
           approved_by?: string | null
+          approver_comment?: string | null
+          auto_approved?: boolean
+          cancellation_reason?: string | null
+          cancellation_requested_at?: string | null
           created_at?: string
           custom_reason?: string | null
           description?: string | null
           employee_id?: string
           end_date?: string
           id?: string
-          leave_type?: Database["public"]["Enums"]["leave_type"]
+          leave_type?: string
           rejection_reason?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["leave_status"]
           updated_at?: string
+          working_days?: number
         }
         Relationships: [
           {
@@ -129,43 +420,202 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leave_requests_leave_type_fkey"
+            columns: ["leave_type"]
+            isOneToOne: false
+            referencedRelation: "leave_types"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      leave_rollovers: {
+        Row: {
+          from_year: number
+          id: string
+          reversed_at: string | null
+          reversed_by: string | null
+          run_at: string
+          run_by: string | null
+        }
+        Insert: {
+          from_year: number
+          id?: string
+          reversed_at?: string | null
+          reversed_by?: string | null
+          run_at?: string
+          run_by?: string | null
+        }
+        Update: {
+          from_year?: number
+          id?: string
+          reversed_at?: string | null
+          reversed_by?: string | null
+          run_at?: string
+          run_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_rollovers_reversed_by_fkey"
+            columns: ["reversed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_rollovers_run_by_fkey"
+            columns: ["run_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_types: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          is_active: boolean
+          is_paid: boolean
+          name: string
+          requires_reason: boolean
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id: string
+          is_active?: boolean
+          is_paid?: boolean
+          name: string
+          requires_reason?: boolean
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          is_active?: boolean
+          is_paid?: boolean
+          name?: string
+          requires_reason?: boolean
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      org_settings: {
+        Row: {
+          allow_open_signup: boolean
+          id: boolean
+          pay_period_anchor: string
+          pay_period_days: number
+          updated_at: string
+        }
+        Insert: {
+          allow_open_signup?: boolean
+          id?: boolean
+          pay_period_anchor?: string
+          pay_period_days?: number
+          updated_at?: string
+        }
+        Update: {
+          allow_open_signup?: boolean
+          id?: boolean
+          pay_period_anchor?: string
+          pay_period_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pending_reporting_lines: {
+        Row: {
+          created_at: string
+          employee_email: string
+          manager_email: string
+        }
+        Insert: {
+          created_at?: string
+          employee_email: string
+          manager_email: string
+        }
+        Update: {
+          created_at?: string
+          employee_email?: string
+          manager_email?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string
-          department: string | null
+          department_id: string | null
           email: string
           first_name: string
           id: string
+          is_active: boolean
           last_name: string
+          location_id: string | null
           manager_id: string | null
-          role: Database["public"]["Enums"]["user_role"]
           updated_at: string
         }
         Insert: {
           created_at?: string
-          department?: string | null
+          department_id?: string | null
           email: string
           first_name: string
           id: string
+          is_active?: boolean
           last_name: string
+          location_id?: string | null
           manager_id?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
         Update: {
           created_at?: string
-          department?: string | null
+          department_id?: string | null
           email?: string
           first_name?: string
           id?: string
+          is_active?: boolean
           last_name?: string
+          location_id?: string | null
           manager_id?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "profiles_manager_id_fkey"
             columns: ["manager_id"]
@@ -198,19 +648,254 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_manage_leave_for: {
+        Args: { manager_id: string; employee_id: string }
+        Returns: boolean
+      }
+      cancel_leave_request: {
+        Args: { p_request_id: string; p_reason?: string }
+        Returns: undefined
+      }
+      check_signup: {
+        Args: { p_email: string; p_invite_token?: string }
+        Returns: undefined
+      }
+      count_working_days: {
+        Args: { p_start_date: string; p_end_date: string }
+        Returns: number
+      }
+      creates_reporting_cycle: {
+        Args: { p_user_id: string; p_manager_id: string }
+        Returns: boolean
+      }
+      decide_leave_cancellation: {
+        Args: { p_request_id: string; p_confirm: boolean }
+        Returns: undefined
+      }
+      decide_leave_request: {
+        Args: {
+          p_request_id: string
+          p_approve: boolean
+          p_rejection_reason?: string
+        }
+        Returns: undefined
+      }
+      decide_leave_requests: {
+        Args: {
+          p_request_ids: string[]
+          p_approve: boolean
+          p_comment?: string
+        }
+        Returns: {
+          request_id: string
+          success: boolean
+          error_code: string | null
+          error_message: string | null
+        }[]
+      }
+      end_leave_policy: {
+        Args: {
+          p_leave_type: string
+          p_effective_from?: string
+          p_department_id?: string
+          p_location_id?: string
+          p_employee_id?: string
+        }
+        Returns: undefined
+      }
+      expire_leave_carryover: {
+        Args: { p_as_of?: string }
+        Returns: number
+      }
+      get_effective_leave_policy: {
+        Args: {
+          p_employee_id: string
+          p_leave_type: string
+          p_date: string
+        }
+        Returns: Database["public"]["Tables"]["leave_policies"]["Row"]
+      }
+      get_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          email: string
+          first_name: string
+          last_name: string
+          expires_at: string
+        }[]
+      }
+      get_leave_balances: {
+        Args: { p_employee_id?: string; p_year?: number }
+        Returns: {
+          leave_type: string
+          year: number
+          entitlement: number
+          taken: number
+          pending: number
+          remaining: number
+        }[]
+      }
+      get_leave_entitlement: {
+        Args: { p_employee_id: string; p_leave_type: string; p_year: number }
+        Returns: number
+      }
+      get_manager_id: {
+        Args: { user_id: string }
+        Returns: string
+      }
       get_user_role: {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      has_decided_leave_for: {
+        Args: { approver_id: string; employee_id: string }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          user_id: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: boolean
+      }
+      import_users: {
+        Args: { p_rows: Json; p_apply?: boolean }
+        Returns: {
+          row_number: number
+          email: string
+          action: string
+          error_code: string | null
+          error_message: string | null
+        }[]
+      }
+      leave_accrual_periods: {
+        Args: { p_schedule: string; p_year: number }
+        Returns: {
+          period_start: string
+          period_end: string
+          period_number: number
+          period_count: number
+        }[]
+      }
+      leave_accrual_target: {
+        Args: {
+          p_employee_id: string
+          p_leave_type: string
+          p_year: number
+          p_as_of: string
+          p_override?: Database["public"]["Tables"]["leave_policies"]["Row"]
+        }
+        Returns: number
+      }
+      leave_policy_precedence: {
+        Args: {
+          p_employee_id: string
+          p_department_id: string
+          p_location_id: string
+        }
+        Returns: number
+      }
+      merge_departments: {
+        Args: { p_source_id: string; p_target_id: string }
+        Returns: undefined
+      }
+      preview_leave_policy_change: {
+        Args: {
+          p_leave_type: string
+          p_annual_quota: number
+          p_max_consecutive_days: number | null
+          p_effective_from?: string
+          p_department_id?: string
+          p_location_id?: string
+          p_employee_id?: string
+          p_accrual_schedule?: string
+        }
+        Returns: {
+          employees_affected: number
+          employees_over_quota: number
+          pending_over_limit: number
+        }[]
+      }
+      preview_year_end_rollover: {
+        Args: { p_year: number }
+        Returns: {
+          employee_id: string
+          first_name: string
+          last_name: string
+          leave_type: string
+          policy_id: string
+          entitlement: number
+          used: number
+          unused: number
+          carryover: number
+          forfeited: number
+          expires_on: string | null
+        }[]
+      }
+      reverse_year_end_rollover: {
+        Args: { p_rollover_id: string }
+        Returns: undefined
+      }
+      run_leave_accruals: {
+        Args: { p_as_of?: string }
+        Returns: number
+      }
+      run_year_end_rollover: {
+        Args: { p_year: number }
+        Returns: string
+      }
+      set_leave_policy: {
+        Args: {
+          p_leave_type: string
+          p_annual_quota: number
+          p_max_consecutive_days: number | null
+          p_requires_approval: boolean
+          p_effective_from?: string
+          p_department_id?: string
+          p_location_id?: string
+          p_employee_id?: string
+          p_accrual_schedule?: string
+          p_max_carryover_days?: number
+          p_carryover_expiry_months?: number | null
+        }
+        Returns: string
+      }
+      set_user_active: {
+        Args: { p_user_id: string; p_active: boolean }
+        Returns: undefined
+      }
+      set_user_department: {
+        Args: { p_user_id: string; p_department_id: string | null }
+        Returns: undefined
+      }
+      set_user_location: {
+        Args: { p_user_id: string; p_location_id: string | null }
+        Returns: undefined
+      }
+      set_user_manager: {
+        Args: { p_user_id: string; p_manager_id: string }
+        Returns: undefined
+      }
+      set_user_roles: {
+        Args: {
+          p_user_id: string
+          p_roles: Database["public"]["Enums"]["user_role"][]
+        }
+        Returns: undefined
+      }
+      sync_leave_accruals: {
+        Args: {
+          p_as_of?: string
+          p_employee_id?: string
+          p_leave_type?: string
+          p_entry_type?: string
+          p_note?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       leave_status: "pending" | "approved" | "rejected" | "cancelled"
-      leave_type:
-        | "sick"
-        | "vacation"
-        | "family_emergency"
-        | "personal"
-        | "other"
       user_role: "employee" | "manager" | "admin"
     }
     CompositeTypes: {
@@ -340,7 +1025,6 @@ export const Constants = {
   public: {
     Enums: {
       leave_status: ["pending", "approved", "rejected", "cancelled"],
-      leave_type: ["sick", "vacation", "family_emergency", "personal", "other"],
       user_role: ["employee", "manager", "admin"],
     },
   },
@@ -0,0 +1,54 @@
+// Parses RFC 4180 style CSV: quoted fields may contain commas, newlines and "" escapes.
+// Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+// Maps each row to an object keyed by the normalized header names
+export function csvToRecords(rows: string[][]): { headers: string[]; records: Record<string, string>[] } {
+  const [headerRow = [], ...dataRows] = rows;
+  const headers = headerRow.map(header => header.trim().toLowerCase().replace(/\s+/g, '_'));
+
+  const records = dataRows.map(values =>
+    Object.fromEntries(headers.map((header, index) => [header, (values[index] ?? '').trim()]))
+  );
+
+  return { headers, records };
+}
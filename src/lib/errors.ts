@@ -0,0 +1,31 @@
+// Custom SQLSTATEs raised by our triggers and RPCs
+const APP_ERRORS: Record<string, string> = {
+  LV001: 'This request is longer than the maximum consecutive days allowed for this leave type.',
+  LV002: "You don't have enough leave remaining for this request.",
+  LV003: 'These dates overlap another leave request of yours.',
+  LV004: 'This leave has already started and can no longer be cancelled.',
+  LV005: 'This request can no longer be cancelled.',
+  LV006: 'This request has already been decided.',
+  LV007: 'Please give a reason for rejecting this request.',
+  LV008: 'That manager would create a reporting cycle.',
+  LV009: 'The selected user is not a manager.',
+  LV010: 'Sign up is by invitation only. Please use the link from your invitation.',
+  LV011: 'That parent would create a department cycle.',
+  LV012: 'This leave type is no longer available. Please choose another.',
+  LV013: 'The accrual schedule can only change from 1 January.',
+  LV014: "This year hasn't ended yet, so its leave can't be rolled over.",
+  LV015: 'This year has already been rolled over.',
+  LV016: "You can't approve or reject your own leave request.",
+  LV017: 'Both departments have their own policy for the same leave type, so they cannot be merged.',
+  // Exclusion constraint backstop when two overlapping requests race
+  '23P01': 'These dates overlap another leave request of yours.',
+};
+
+export function describeError(error: { code?: string; message: string; details?: string }) {
+  const message = error.code ? APP_ERRORS[error.code] : undefined;
+  if (!message) {
+    return error.message;
+  }
+  // Only our own LV errors carry user-facing details
+  return error.details && error.code.startsWith('LV') ? `${message} ${error.details}` : message;
+}
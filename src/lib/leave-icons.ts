@@ -0,0 +1,33 @@
+import {
+  Baby,
+  Briefcase,
+  Calendar,
+  Flower2,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  LucideIcon,
+  Palmtree,
+  Plane,
+  Scale,
+  Stethoscope,
+  Thermometer,
+  User,
+} from 'lucide-react';
+
+// Icons admins can pick for a leave type, keyed by the value stored in leave_types.icon
+export const LEAVE_TYPE_ICONS: Record<string, LucideIcon> = {
+  calendar: Calendar,
+  'palm-tree': Palmtree,
+  thermometer: Thermometer,
+  stethoscope: Stethoscope,
+  'heart-pulse': HeartPulse,
+  user: User,
+  baby: Baby,
+  flower: Flower2,
+  scale: Scale,
+  'graduation-cap': GraduationCap,
+  plane: Plane,
+  home: Home,
+  briefcase: Briefcase,
+};
@@ -0,0 +1,39 @@
+import { eachDayOfInterval, format, isWeekend } from 'date-fns';
+import { Database } from '@/integrations/supabase/types';
+
+export type LeaveStatus = Database['public']['Enums']['leave_status'];
+
+// A row of public.leave_types; requests and policies store its id
+export interface LeaveType {
+  id: string;
+  name: string;
+  color: string;
+  icon: string;
+  is_paid: boolean;
+  requires_reason: boolean;
+  is_active: boolean;
+}
+
+// Falls back to the id while the types are still loading
+export function leaveTypeName(leaveTypes: LeaveType[], id: string) {
+  return leaveTypes.find(type => type.id === id)?.name ?? id;
+}
+
+export function formatLeaveStatus(status: LeaveStatus) {
+  return status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+// Leave dates are stored as plain DATE columns, so never send a timezone along.
+export function toDateString(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Mirrors public.count_working_days so the form shows the same duration the database stores.
+export function countWorkingDays(start: Date, end: Date, holidays: string[] = []) {
+  if (end < start) return 0;
+
+  const holidaySet = new Set(holidays);
+  return eachDayOfInterval({ start, end }).filter(
+    (day) => !isWeekend(day) && !holidaySet.has(toDateString(day))
+  ).length;
+}
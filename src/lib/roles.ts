@@ -0,0 +1,16 @@
+import { Constants, Database } from '@/integrations/supabase/types';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+
+export const USER_ROLES = Constants.public.Enums.user_role;
+
+// Highest precedence first
+const ROLE_PRECEDENCE: UserRole[] = ['admin', 'manager', 'employee'];
+
+export function getPrimaryRole(roles: UserRole[]): UserRole {
+  return ROLE_PRECEDENCE.find(role => roles.includes(role)) ?? 'employee';
+}
+
+export function formatRole(role: UserRole) {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
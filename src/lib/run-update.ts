@@ -0,0 +1,26 @@
+import { toast } from '@/hooks/use-toast';
+import { describeError } from '@/lib/errors';
+
+export type UpdateRequest = PromiseLike<{ error: { code?: string; message: string } | null }>;
+
+interface UpdateMessages {
+  title: string;
+  success: string;
+  // Friendlier descriptions for constraint errors, keyed by SQLSTATE
+  errors?: Record<string, string>;
+}
+
+// Runs an admin write and reports the outcome in a toast
+export async function runUpdate(request: UpdateRequest, { title, success, errors = {} }: UpdateMessages) {
+  const { error } = await request;
+  if (error) {
+    toast({
+      title: 'Update Failed',
+      description: errors[error.code] ?? describeError(error),
+      variant: 'destructive',
+    });
+  } else {
+    toast({ title, description: success });
+  }
+  return !error;
+}
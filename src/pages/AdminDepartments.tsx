@@ -0,0 +1,300 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { describeError } from '@/lib/errors';
+import { Department } from '@/hooks/use-departments';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+
+interface Member {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+}
+
+const NONE = 'none';
+
+const DEPARTMENT_ERRORS: Record<string, string> = {
+  '23505': 'A department with this name already exists.',
+  // Policy versions keep their department, so it can only be merged away
+  '23503': 'Leave policies apply to this department. Merge it into another department instead.',
+};
+
+export default function AdminDepartments() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [mergeSource, setMergeSource] = useState<Department | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  useEffect(() => {
+    fetchDepartments();
+  }, []);
+
+  const fetchDepartments = async () => {
+    try {
+      const [{ data: departmentRows, error }, { data: profiles }] = await Promise.all([
+        supabase.from('departments').select('id, name, head_id, parent_id').order('name', { ascending: true }),
+        supabase
+          .from('profiles')
+          .select('id, first_name, last_name, department_id')
+          .eq('is_active', true)
+          .order('last_name', { ascending: true }),
+      ]);
+
+      if (error) throw error;
+
+      setDepartments(departmentRows || []);
+      setMembers(profiles || []);
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runUpdate = async (request: PromiseLike<{ error: { code?: string; message: string } | null }>, success: string) => {
+    const { error } = await request;
+    if (error) {
+      toast({
+        title: 'Update Failed',
+        description: DEPARTMENT_ERRORS[error.code] ?? describeError(error),
+        variant: 'destructive',
+      });
+    } else {
+      toast({ title: 'Departments Updated', description: success });
+    }
+    fetchDepartments();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setNewName('');
+    runUpdate(supabase.from('departments').insert({ name }), `${name} was added.`);
+  };
+
+  const handleRename = (department: Department) => {
+    const draft = nameDrafts[department.id]?.trim();
+    setNameDrafts(({ [department.id]: _, ...rest }) => rest);
+    if (!draft || draft === department.name) return;
+
+    runUpdate(
+      supabase.from('departments').update({ name: draft }).eq('id', department.id),
+      `${department.name} was renamed to ${draft}.`
+    );
+  };
+
+  const handleParentChange = (department: Department, parentId: string) => {
+    runUpdate(
+      supabase.from('departments').update({ parent_id: parentId === NONE ? null : parentId }).eq('id', department.id),
+      `${department.name}'s parent department was updated.`
+    );
+  };
+
+  const handleHeadChange = (department: Department, headId: string) => {
+    runUpdate(
+      supabase.from('departments').update({ head_id: headId === NONE ? null : headId }).eq('id', department.id),
+      `${department.name}'s head was updated.`
+    );
+  };
+
+  const handleDelete = (department: Department) => {
+    runUpdate(supabase.from('departments').delete().eq('id', department.id), `${department.name} was deleted.`);
+  };
+
+  const handleMerge = () => {
+    const target = departments.find(department => department.id === mergeTarget);
+    if (!mergeSource || !target) return;
+
+    runUpdate(
+      supabase.rpc('merge_departments', { p_source_id: mergeSource.id, p_target_id: target.id }),
+      `${mergeSource.name} was merged into ${target.name}.`
+    );
+    setMergeSource(null);
+  };
+
+  const memberCount = (departmentId: string) =>
+    members.filter(member => member.department_id === departmentId).length;
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Departments</h1>
+        <p className="text-muted-foreground">Department names, heads and how departments roll up into each other.</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>All Departments</CardTitle>
+            <CardDescription>
+              Merge duplicates to move their members into a single department.
+            </CardDescription>
+          </div>
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              className="h-9 w-48"
+              placeholder="New department"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={!newName.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          {departments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No departments yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Parent</TableHead>
+                  <TableHead>Head</TableHead>
+                  <TableHead className="text-right">Members</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departments.map((department) => {
+                  const count = memberCount(department.id);
+                  return (
+                    <TableRow key={department.id}>
+                      <TableCell>
+                        <Input
+                          className="h-8 w-48"
+                          value={nameDrafts[department.id] ?? department.name}
+                          onChange={(e) => setNameDrafts({ ...nameDrafts, [department.id]: e.target.value })}
+                          onBlur={() => handleRename(department)}
+                          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={department.parent_id ?? NONE}
+                          onValueChange={(value) => handleParentChange(department, value)}
+                        >
+                          <SelectTrigger className="h-8 w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No parent</SelectItem>
+                            {departments
+                              .filter(other => other.id !== department.id)
+                              .map(other => (
+                                <SelectItem key={other.id} value={other.id}>
+                                  {other.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={department.head_id ?? NONE}
+                          onValueChange={(value) => handleHeadChange(department, value)}
+                        >
+                          <SelectTrigger className="h-8 w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>No head</SelectItem>
+                            {members.map(member => (
+                              <SelectItem key={member.id} value={member.id}>
+                                {member.first_name} {member.last_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">{count}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={departments.length < 2}
+                          onClick={() => {
+                            setMergeSource(department);
+                            setMergeTarget('');
+                          }}
+                        >
+                          Merge
+                        </Button>
+                        <Button variant="ghost" size="sm" disabled={count > 0} onClick={() => handleDelete(department)}>
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge {mergeSource?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in {mergeSource?.name} moves to the department you choose, along with its leave policies and
+              sub-departments, and {mergeSource?.name} is deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Merge into</Label>
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments
+                  .filter(department => department.id !== mergeSource?.id)
+                  .map(department => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={!mergeTarget}>
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
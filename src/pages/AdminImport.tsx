@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { csvToRecords, parseCsv } from '@/lib/csv';
+import { describeError } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { Loader2, Upload } from 'lucide-react';
+
+interface ImportResult {
+  row_number: number;
+  email: string;
+  action: string;
+  error_code: string | null;
+  error_message: string | null;
+}
+
+const COLUMNS = ['email', 'first_name', 'last_name', 'department', 'manager_email', 'role'];
+const REQUIRED_COLUMNS = ['email', 'first_name', 'last_name'];
+
+export default function AdminImport() {
+  const [fileName, setFileName] = useState('');
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  const runImport = (rows: Record<string, string>[], apply: boolean) =>
+    supabase.rpc('import_users', { p_rows: rows, p_apply: apply });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setResults(null);
+    setImported(false);
+    setErrorsOnly(false);
+
+    const { headers, records: parsed } = csvToRecords(parseCsv(await file.text()));
+    const missing = REQUIRED_COLUMNS.filter(column => !headers.includes(column));
+
+    if (missing.length > 0 || parsed.length === 0) {
+      setRecords([]);
+      toast({
+        title: 'Invalid File',
+        description: missing.length > 0
+          ? `Missing required columns: ${missing.join(', ')}.`
+          : 'The file has no rows to import.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Only send the known columns; anything else in the file is ignored
+    const rows = parsed.map(record => Object.fromEntries(COLUMNS.map(column => [column, record[column] ?? ''])));
+    setRecords(rows);
+    setValidating(true);
+
+    try {
+      const { data, error } = await runImport(rows, false);
+      if (error) {
+        toast({ title: 'Validation Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      setResults(data || []);
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+
+    try {
+      const { data, error } = await runImport(records, true);
+      if (error) {
+        toast({ title: 'Import Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+
+      setResults(data || []);
+      const failed = (data || []).filter(result => result.error_code);
+
+      if (failed.length > 0) {
+        // Something changed since the preview; nothing was written
+        toast({
+          title: 'Import Failed',
+          description: `${failed.length} ${failed.length === 1 ? 'row is' : 'rows are'} no longer valid. Nothing was imported.`,
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      setImported(true);
+      const invited = (data || []).filter(result => result.action === 'invite').length;
+      toast({
+        title: 'Import Complete',
+        description: `${data.length - invited} users updated and ${invited} invitations created.`,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const errorCount = results?.filter(result => result.error_code).length ?? 0;
+  const inviteCount = results?.filter(result => !result.error_code && result.action === 'invite').length ?? 0;
+  const visibleResults = (results || []).filter(result => !errorsOnly || result.error_code);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Import Users</h1>
+        <p className="text-muted-foreground">Add or update employees and reporting lines from a CSV file.</p>
+      </div>
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Upload CSV</CardTitle>
+          <CardDescription>
+            Columns: <code className="text-xs">{COLUMNS.join(', ')}</code>. Existing users are matched by email and
+            get the file's department and manager; the role is added to their current roles. Everyone else receives
+            an invitation. Departments are matched by name and must already exist. A manager can be anyone in the
+            file or the organization with the manager role.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="import-file">File</Label>
+          <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          {validating && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Validating {records.length} rows...
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {results && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{imported ? 'Imported' : 'Preview'}: {fileName}</CardTitle>
+              <CardDescription>
+                {errorCount > 0
+                  ? `${errorCount} of ${results.length} rows have errors. Fix the file and upload it again.`
+                  : `${results.length - inviteCount} users to update and ${inviteCount} to invite.`}
+              </CardDescription>
+            </div>
+            {imported ? (
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/admin/users">Copy invitation links</Link>
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleImport} disabled={errorCount > 0 || importing}>
+                {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                Import {results.length} {results.length === 1 ? 'user' : 'users'}
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {errorCount > 0 && (
+              <div className="flex items-center gap-2">
+                <Switch id="errors-only" checked={errorsOnly} onCheckedChange={setErrorsOnly} />
+                <Label htmlFor="errors-only">Only show rows with errors</Label>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Manager</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleResults.map((result) => {
+                  const record = records[result.row_number - 1];
+                  return (
+                    <TableRow key={result.row_number}>
+                      <TableCell className="text-muted-foreground">{result.row_number}</TableCell>
+                      <TableCell className="font-medium">{record.email}</TableCell>
+                      <TableCell>{record.first_name} {record.last_name}</TableCell>
+                      <TableCell>{record.department || '—'}</TableCell>
+                      <TableCell>{record.manager_email || '—'}</TableCell>
+                      <TableCell className="capitalize">{record.role || 'employee'}</TableCell>
+                      <TableCell>
+                        {result.error_code ? (
+                          <span className="text-sm text-destructive">{result.error_message}</span>
+                        ) : (
+                          <Badge variant={result.action === 'invite' ? 'secondary' : 'outline'}>
+                            {result.action === 'invite' ? 'Invite' : 'Update'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { LeaveType, toDateString } from '@/lib/leave';
+import { LEAVE_TYPE_ICONS } from '@/lib/leave-icons';
+import { describeError } from '@/lib/errors';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LeaveTypeIcon } from '@/components/leave/LeaveTypeLabel';
+import { toast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+
+// Ids are stored on requests and policies, so they are derived once from the name and never change
+const toLeaveTypeId = (name: string) => {
+  const id = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z]/.test(id) ? id : `type_${id}`;
+};
+
+const formatIconName = (icon: string) => icon.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+export default function AdminLeaveTypes() {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  // Types with a company-wide policy in force today
+  const [coveredTypeIds, setCoveredTypeIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+  const [nameDrafts, setNameDrafts] = useState<Record<string, string>>({});
+  const [colorDrafts, setColorDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchLeaveTypes();
+  }, []);
+
+  const fetchLeaveTypes = async () => {
+    try {
+      const today = toDateString(new Date());
+      const [{ data, error }, { data: policies }] = await Promise.all([
+        supabase
+          .from('leave_types')
+          .select('id, name, color, icon, is_paid, requires_reason, is_active')
+          .order('name', { ascending: true }),
+        supabase
+          .from('leave_policies')
+          .select('leave_type')
+          .is('department_id', null)
+          .is('location_id', null)
+          .is('employee_id', null)
+          .lte('effective_from', today)
+          .or(`effective_to.is.null,effective_to.gte.${today}`),
+      ]);
+
+      if (error) throw error;
+      setLeaveTypes(data || []);
+      setCoveredTypeIds(new Set((policies || []).map(policy => policy.leave_type)));
+    } catch (error) {
+      console.error('Error fetching leave types:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runUpdate = async (request: PromiseLike<{ error: { code?: string; message: string } | null }>, success: string) => {
+    const { error } = await request;
+    if (error) {
+      const description =
+        error.code === '23505'
+          ? 'A leave type with this name already exists.'
+          : error.code === '23503'
+            ? 'This leave type is used by requests or policies. Archive it instead.'
+            : describeError(error);
+      toast({ title: 'Update Failed', description, variant: 'destructive' });
+    } else {
+      toast({ title: 'Leave Types Updated', description: success });
+    }
+    fetchLeaveTypes();
+  };
+
+  const updateLeaveType = (leaveType: LeaveType, fields: Partial<Omit<LeaveType, 'id'>>, success: string) => {
+    runUpdate(supabase.from('leave_types').update(fields).eq('id', leaveType.id), success);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setNewName('');
+    runUpdate(supabase.from('leave_types').insert({ id: toLeaveTypeId(name), name }), `${name} was added.`);
+  };
+
+  const handleRename = (leaveType: LeaveType) => {
+    const draft = nameDrafts[leaveType.id]?.trim();
+    setNameDrafts(({ [leaveType.id]: _, ...rest }) => rest);
+    if (!draft || draft === leaveType.name) return;
+
+    updateLeaveType(leaveType, { name: draft }, `${leaveType.name} was renamed to ${draft}.`);
+  };
+
+  // The color picker fires on every move, so only save once it closes
+  const handleColorCommit = (leaveType: LeaveType) => {
+    const draft = colorDrafts[leaveType.id];
+    setColorDrafts(({ [leaveType.id]: _, ...rest }) => rest);
+    if (!draft || draft === leaveType.color) return;
+
+    updateLeaveType(leaveType, { color: draft }, `${leaveType.name}'s color was updated.`);
+  };
+
+  const handleDelete = (leaveType: LeaveType) => {
+    runUpdate(supabase.from('leave_types').delete().eq('id', leaveType.id), `${leaveType.name} was deleted.`);
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Leave Types</h1>
+        <p className="text-muted-foreground">The kinds of leave employees can request and how they are shown.</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>All Leave Types</CardTitle>
+            <CardDescription>
+              Archived types stay on existing requests but can no longer be requested. Types without a company-wide
+              policy have no quota and use the default approval rules, so set one up under Leave Policies.
+            </CardDescription>
+          </div>
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              className="h-9 w-48"
+              placeholder="New leave type"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Button type="submit" size="sm" disabled={!newName.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Color</TableHead>
+                <TableHead>Icon</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Requires Reason</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {leaveTypes.map((leaveType) => (
+                <TableRow key={leaveType.id} className={leaveType.is_active ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <LeaveTypeIcon leaveType={{ ...leaveType, color: colorDrafts[leaveType.id] ?? leaveType.color }} />
+                      <Input
+                        className="h-8 w-48"
+                        value={nameDrafts[leaveType.id] ?? leaveType.name}
+                        onChange={(e) => setNameDrafts({ ...nameDrafts, [leaveType.id]: e.target.value })}
+                        onBlur={() => handleRename(leaveType)}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                      {!coveredTypeIds.has(leaveType.id) && (
+                        <Badge variant="outline" className="whitespace-nowrap">
+                          <Link to="/admin/policies">No policy</Link>
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="color"
+                      className="h-8 w-14 p-1"
+                      value={colorDrafts[leaveType.id] ?? leaveType.color}
+                      onChange={(e) => setColorDrafts({ ...colorDrafts, [leaveType.id]: e.target.value })}
+                      onBlur={() => handleColorCommit(leaveType)}
+                      aria-label={`${leaveType.name} color`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={leaveType.icon}
+                      onValueChange={(icon) => updateLeaveType(leaveType, { icon }, `${leaveType.name}'s icon was updated.`)}
+                    >
+                      <SelectTrigger className="h-8 w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(LEAVE_TYPE_ICONS).map(([icon, Icon]) => (
+                          <SelectItem key={icon} value={icon}>
+                            <span className="inline-flex items-center gap-2">
+                              <Icon className="h-4 w-4" />
+                              {formatIconName(icon)}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={leaveType.is_paid}
+                      onCheckedChange={(checked) =>
+                        updateLeaveType(
+                          leaveType,
+                          { is_paid: checked },
+                          `${leaveType.name} is now ${checked ? 'paid' : 'unpaid'} leave.`
+                        )
+                      }
+                      aria-label={`${leaveType.name} is paid`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={leaveType.requires_reason}
+                      onCheckedChange={(checked) =>
+                        updateLeaveType(
+                          leaveType,
+                          { requires_reason: checked },
+                          checked
+                            ? `Employees must give a reason for ${leaveType.name} leave.`
+                            : `${leaveType.name} leave no longer needs a reason.`
+                        )
+                      }
+                      aria-label={`${leaveType.name} requires a reason`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={leaveType.is_active}
+                      onCheckedChange={(checked) =>
+                        updateLeaveType(
+                          leaveType,
+                          { is_active: checked },
+                          `${leaveType.name} was ${checked ? 'restored' : 'archived'}.`
+                        )
+                      }
+                      aria-label={leaveType.is_active ? 'Archive leave type' : 'Restore leave type'}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(leaveType)}>
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
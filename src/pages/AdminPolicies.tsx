@@ -0,0 +1,788 @@
+import React, { useEffect, useState } from 'react';
+import { z } from 'zod';
+import { format, getDayOfYear, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { leaveTypeName, toDateString } from '@/lib/leave';
+import { describeError } from '@/lib/errors';
+import { useDepartments } from '@/hooks/use-departments';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { useLocations } from '@/hooks/use-locations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AccrualSettingsCard } from '@/components/admin/AccrualSettingsCard';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+// A policy applies to everyone, or overrides it for one department, location or employee
+interface PolicyScope {
+  department_id: string | null;
+  location_id: string | null;
+  employee_id: string | null;
+}
+
+interface Policy extends PolicyScope {
+  id: string;
+  leave_type: string;
+  annual_quota: number;
+  max_consecutive_days: number | null;
+  requires_approval: boolean | null;
+  accrual_schedule: AccrualSchedule;
+  max_carryover_days: number;
+  carryover_expiry_months: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  created_at: string;
+  changer: { first_name: string; last_name: string } | null;
+}
+
+interface Employee {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+  location_id: string | null;
+  is_active: boolean;
+}
+
+type ScopeKind = 'global' | 'department' | 'location' | 'employee';
+
+interface PolicyDraft {
+  annual_quota: string;
+  max_consecutive_days: string;
+  requires_approval: boolean;
+  accrual_schedule: AccrualSchedule;
+  max_carryover_days: string;
+  carryover_expiry_months: string;
+}
+
+interface PolicyPreview {
+  employees_affected: number;
+  employees_over_quota: number;
+  pending_over_limit: number;
+}
+
+const ACCRUAL_SCHEDULES = {
+  annual: 'Up front',
+  monthly: 'Monthly',
+  pay_period: 'Per pay period',
+} as const;
+
+type AccrualSchedule = keyof typeof ACCRUAL_SCHEDULES;
+
+// Carried-over days expire at the end of this many months into the new year
+const NEVER_EXPIRES = 'never';
+const EXPIRY_MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+const monthName = (month: number) => format(new Date(2000, month - 1, 1), 'MMMM');
+
+// Mirrors the CHECK constraints on leave_policies
+const policySchema = z.object({
+  annual_quota: z
+    .string()
+    .trim()
+    .regex(/^\d+$/, 'Quota must be a whole number of days.')
+    .transform(Number)
+    .refine(quota => quota <= 366, 'Quota cannot be more than 366 days.'),
+  max_consecutive_days: z
+    .string()
+    .trim()
+    .regex(/^\d*$/, 'Max consecutive days must be a whole number.')
+    .transform(days => (days === '' ? null : Number(days)))
+    .refine(days => days === null || (days >= 1 && days <= 366), 'Max consecutive days must be between 1 and 366.'),
+  requires_approval: z.boolean(),
+  accrual_schedule: z.enum(['annual', 'monthly', 'pay_period']),
+  max_carryover_days: z
+    .string()
+    .trim()
+    .regex(/^\d+$/, 'Carryover must be a whole number of days.')
+    .transform(Number)
+    .refine(days => days <= 366, 'Carryover cannot be more than 366 days.'),
+  carryover_expiry_months: z.string().transform(months => (months === NEVER_EXPIRES ? null : Number(months))),
+});
+
+type PolicyValues = z.infer<typeof policySchema>;
+
+const toDraft = (policy?: Policy): PolicyDraft => ({
+  annual_quota: String(policy?.annual_quota ?? 0),
+  max_consecutive_days: policy?.max_consecutive_days?.toString() ?? '',
+  requires_approval: policy?.requires_approval ?? true,
+  accrual_schedule: policy?.accrual_schedule ?? 'annual',
+  max_carryover_days: String(policy?.max_carryover_days ?? 0),
+  carryover_expiry_months: policy?.carryover_expiry_months?.toString() ?? NEVER_EXPIRES,
+});
+
+const describeLimit = (days: number | null) => (days === null ? 'no limit' : `${days} days`);
+const describeQuota = (quota: number) => (quota === 0 ? 'not tracked' : `${quota} days`);
+const describeCarryover = (days: number, expiryMonths: number | null) =>
+  days === 0 ? 'none' : `${days} days${expiryMonths === null ? '' : `, use by end of ${monthName(expiryMonths)}`}`;
+const formatDate = (date: string) => format(parseISO(date), 'PP');
+
+// Dates are yyyy-MM-dd strings, so they compare correctly as text
+const isInForce = (policy: Policy, date: string) =>
+  policy.effective_from <= date && (policy.effective_to === null || policy.effective_to >= date);
+const isSuperseded = (policy: Policy) => policy.effective_to !== null && policy.effective_to < policy.effective_from;
+
+const GLOBAL_SCOPE: PolicyScope = { department_id: null, location_id: null, employee_id: null };
+
+const SCOPE_KINDS: { value: ScopeKind; label: string }[] = [
+  { value: 'global', label: 'Everyone' },
+  { value: 'department', label: 'A department' },
+  { value: 'location', label: 'A location' },
+  { value: 'employee', label: 'An employee' },
+];
+
+const isSameScope = (a: PolicyScope, b: PolicyScope) =>
+  a.department_id === b.department_id && a.location_id === b.location_id && a.employee_id === b.employee_id;
+const isGlobalScope = (scope: PolicyScope) => isSameScope(scope, GLOBAL_SCOPE);
+
+// Unused scope arguments are left out so the RPC defaults apply
+const scopeArgs = (scope: PolicyScope) => ({
+  p_department_id: scope.department_id ?? undefined,
+  p_location_id: scope.location_id ?? undefined,
+  p_employee_id: scope.employee_id ?? undefined,
+});
+
+const ALL_TYPES = 'all';
+
+export default function AdminPolicies() {
+  const [policies, setPolicies] = useState<Policy[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [scopeKind, setScopeKind] = useState<ScopeKind>('global');
+  const [scopeTarget, setScopeTarget] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(toDateString(new Date()));
+  const [historyType, setHistoryType] = useState<string>(ALL_TYPES);
+  const [drafts, setDrafts] = useState<Partial<Record<string, PolicyDraft>>>({});
+  const [rowErrors, setRowErrors] = useState<Partial<Record<string, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const departments = useDepartments();
+  const { locations } = useLocations();
+  const leaveTypes = useLeaveTypes();
+  const [pendingChange, setPendingChange] = useState<{
+    leaveType: string;
+    values: PolicyValues;
+    preview: PolicyPreview;
+  } | null>(null);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      const [{ data, error }, { data: profiles }] = await Promise.all([
+        supabase
+          .from('leave_policies')
+          .select(
+            'id, leave_type, annual_quota, max_consecutive_days, requires_approval, accrual_schedule, max_carryover_days, carryover_expiry_months, effective_from, effective_to, created_at, department_id, location_id, employee_id, changer:profiles!leave_policies_changed_by_fkey(first_name, last_name)'
+          )
+          .order('effective_from', { ascending: false })
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('profiles')
+          .select('id, first_name, last_name, department_id, location_id, is_active')
+          .order('last_name', { ascending: true }),
+      ]);
+
+      if (error) throw error;
+      // accrual_schedule is a TEXT column limited by a CHECK constraint
+      setPolicies((data || []) as Policy[]);
+      setEmployees(profiles || []);
+    } catch (error) {
+      console.error('Error fetching leave policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scope: PolicyScope = {
+    department_id: scopeKind === 'department' ? scopeTarget || null : null,
+    location_id: scopeKind === 'location' ? scopeTarget || null : null,
+    employee_id: scopeKind === 'employee' ? scopeTarget || null : null,
+  };
+  const scopeReady = scopeKind === 'global' || scopeTarget !== '';
+
+  const scopeLabel = (target: PolicyScope) => {
+    if (target.employee_id) {
+      const employee = employees.find(other => other.id === target.employee_id);
+      return employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown employee';
+    }
+    if (target.department_id) {
+      return departments.find(department => department.id === target.department_id)?.name ?? 'Unknown department';
+    }
+    if (target.location_id) {
+      return locations.find(location => location.id === target.location_id)?.name ?? 'Unknown location';
+    }
+    return 'Everyone';
+  };
+
+  const typeName = (leaveType: string) => leaveTypeName(leaveTypes, leaveType);
+
+  // The broader scopes the selected one falls back to, most specific first
+  const fallbackScopes = (): PolicyScope[] => {
+    if (scopeKind !== 'employee') return isGlobalScope(scope) ? [] : [GLOBAL_SCOPE];
+
+    const employee = employees.find(other => other.id === scope.employee_id);
+    return [
+      ...(employee?.department_id ? [{ ...GLOBAL_SCOPE, department_id: employee.department_id }] : []),
+      ...(employee?.location_id ? [{ ...GLOBAL_SCOPE, location_id: employee.location_id }] : []),
+      GLOBAL_SCOPE,
+    ];
+  };
+
+  // Edits are made against the versions in force on the chosen effective date
+  const policyIn = (leaveType: string, target: PolicyScope) =>
+    policies.find(policy =>
+      policy.leave_type === leaveType && isSameScope(policy, target) && isInForce(policy, effectiveFrom)
+    );
+  const policyFor = (leaveType: string) => policyIn(leaveType, scope);
+  const inheritedPolicyFor = (leaveType: string) =>
+    fallbackScopes()
+      .map(target => policyIn(leaveType, target))
+      .find(Boolean);
+  const draftFor = (leaveType: string) =>
+    drafts[leaveType] ?? toDraft(policyFor(leaveType) ?? inheritedPolicyFor(leaveType));
+
+  const resetDrafts = () => {
+    setDrafts({});
+    setRowErrors({});
+  };
+
+  const updateDraft = (leaveType: string, fields: Partial<PolicyDraft>) => {
+    setDrafts({ ...drafts, [leaveType]: { ...draftFor(leaveType), ...fields } });
+    setRowErrors({ ...rowErrors, [leaveType]: undefined });
+  };
+
+  const discardDraft = (leaveType: string) => {
+    setDrafts(({ [leaveType]: _, ...rest }) => rest);
+    setRowErrors({ ...rowErrors, [leaveType]: undefined });
+  };
+
+  const isDirty = (leaveType: string) => {
+    const draft = drafts[leaveType];
+    if (!draft) return false;
+    const current = toDraft(policyFor(leaveType));
+    return (
+      !policyFor(leaveType) ||
+      draft.annual_quota.trim() !== current.annual_quota ||
+      draft.max_consecutive_days.trim() !== current.max_consecutive_days ||
+      draft.requires_approval !== current.requires_approval ||
+      draft.accrual_schedule !== current.accrual_schedule ||
+      draft.max_carryover_days.trim() !== current.max_carryover_days ||
+      draft.carryover_expiry_months !== current.carryover_expiry_months
+    );
+  };
+
+  const handleReview = async (leaveType: string) => {
+    const parsed = policySchema.safeParse(draftFor(leaveType));
+    if (!parsed.success) {
+      setRowErrors({ ...rowErrors, [leaveType]: parsed.error.issues[0].message });
+      return;
+    }
+
+    // A year is accrued on a single schedule
+    const inForce = policyFor(leaveType) ?? inheritedPolicyFor(leaveType);
+    if (
+      inForce &&
+      inForce.accrual_schedule !== parsed.data.accrual_schedule &&
+      getDayOfYear(parseISO(effectiveFrom)) !== 1
+    ) {
+      setRowErrors({ ...rowErrors, [leaveType]: 'The accrual schedule can only change from 1 January.' });
+      return;
+    }
+
+    setPreviewing(leaveType);
+    try {
+      const { data, error } = await supabase.rpc('preview_leave_policy_change', {
+        p_leave_type: leaveType,
+        p_annual_quota: parsed.data.annual_quota,
+        p_max_consecutive_days: parsed.data.max_consecutive_days,
+        p_effective_from: effectiveFrom,
+        p_accrual_schedule: parsed.data.accrual_schedule,
+        ...scopeArgs(scope),
+      });
+
+      if (error) {
+        toast({ title: 'Preview Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      setPendingChange({ leaveType, values: parsed.data, preview: data[0] });
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingChange) return;
+    const { leaveType, values } = pendingChange;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_leave_policy', {
+        p_leave_type: leaveType,
+        p_annual_quota: values.annual_quota,
+        p_max_consecutive_days: values.max_consecutive_days,
+        p_requires_approval: values.requires_approval,
+        p_effective_from: effectiveFrom,
+        ...scopeArgs(scope),
+        p_accrual_schedule: values.accrual_schedule,
+        p_max_carryover_days: values.max_carryover_days,
+        p_carryover_expiry_months: values.carryover_expiry_months,
+      });
+
+      if (error) {
+        toast({ title: 'Update Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+
+      toast({
+        title: 'Policy Updated',
+        description: `The new ${typeName(leaveType)} policy for ${scopeLabel(scope)} applies from ${formatDate(effectiveFrom)}.`,
+      });
+      discardDraft(leaveType);
+      setPendingChange(null);
+      fetchPolicies();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async (leaveType: string) => {
+    const { error } = await supabase.rpc('end_leave_policy', {
+      p_leave_type: leaveType,
+      p_effective_from: effectiveFrom,
+      ...scopeArgs(scope),
+    });
+
+    if (error) {
+      toast({ title: 'Update Failed', description: describeError(error), variant: 'destructive' });
+    } else {
+      toast({
+        title: 'Override Removed',
+        description: `${scopeLabel(scope)} follows the broader ${typeName(leaveType)} policy from ${formatDate(effectiveFrom)}.`,
+      });
+    }
+    discardDraft(leaveType);
+    fetchPolicies();
+  };
+
+  // One line per field that actually changes
+  const describeChanges = (leaveType: string, values: PolicyValues) => {
+    const current = policyFor(leaveType) ?? inheritedPolicyFor(leaveType);
+    if (!current) return [`A new policy is created for ${typeName(leaveType)} leave.`];
+
+    const changes: string[] = [];
+    if (!policyFor(leaveType)) {
+      changes.push(`${scopeLabel(scope)} gets its own ${typeName(leaveType)} policy.`);
+    }
+    if (current.annual_quota !== values.annual_quota) {
+      changes.push(`Annual quota: ${describeQuota(current.annual_quota)} → ${describeQuota(values.annual_quota)}`);
+    }
+    if (current.max_consecutive_days !== values.max_consecutive_days) {
+      changes.push(
+        `Max consecutive days: ${describeLimit(current.max_consecutive_days)} → ${describeLimit(values.max_consecutive_days)}`
+      );
+    }
+    if ((current.requires_approval ?? true) !== values.requires_approval) {
+      changes.push(values.requires_approval ? 'New requests will need approval.' : 'New requests will be approved automatically.');
+    }
+    if (current.accrual_schedule !== values.accrual_schedule) {
+      changes.push(
+        `Accrual: ${ACCRUAL_SCHEDULES[current.accrual_schedule].toLowerCase()} → ${ACCRUAL_SCHEDULES[values.accrual_schedule].toLowerCase()}`
+      );
+    }
+    if (
+      current.max_carryover_days !== values.max_carryover_days ||
+      current.carryover_expiry_months !== values.carryover_expiry_months
+    ) {
+      changes.push(
+        `Carryover: ${describeCarryover(current.max_carryover_days, current.carryover_expiry_months)} → ${describeCarryover(values.max_carryover_days, values.carryover_expiry_months)}`
+      );
+    }
+    return changes;
+  };
+
+  const today = toDateString(new Date());
+  const historyRows = policies
+    .filter(policy => historyType === ALL_TYPES || policy.leave_type === historyType)
+    .filter(policy => isGlobalScope(scope) || [scope, ...fallbackScopes()].some(target => isSameScope(policy, target)))
+    .sort((a, b) => typeName(a.leave_type).localeCompare(typeName(b.leave_type)));
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Leave Policies</h1>
+        <p className="text-muted-foreground">Quotas, limits and approval rules for each type of leave.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+          <CardDescription>
+            A quota of 0 means the leave type is not tracked against a balance. Quotas are granted up front on
+            1 January or accrued in equal parts each month or pay period. Leave max consecutive days empty for
+            no limit. Each change is saved as a new version; requests are checked against the version in force on
+            their dates. Overrides for an employee win over their department's, which win over their location's.
+            Up to the carryover limit of unused days moves into the next year at the year-end rollover.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <div className="flex items-center gap-2">
+              <Label>Applies to</Label>
+              <Select
+                value={scopeKind}
+                onValueChange={(value) => {
+                  setScopeKind(value as ScopeKind);
+                  setScopeTarget('');
+                  resetDrafts();
+                }}
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCOPE_KINDS.map((kind) => (
+                    <SelectItem key={kind.value} value={kind.value}>
+                      {kind.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {scopeKind !== 'global' && (
+                <Select
+                  value={scopeTarget}
+                  onValueChange={(value) => {
+                    setScopeTarget(value);
+                    resetDrafts();
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-48">
+                    <SelectValue placeholder={`Select ${scopeKind === 'employee' ? 'an' : 'a'} ${scopeKind}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeKind === 'department' &&
+                      departments.map((department) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                    {scopeKind === 'location' &&
+                      locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    {scopeKind === 'employee' &&
+                      employees
+                        .filter(employee => employee.is_active)
+                        .map((employee) => (
+                          <SelectItem key={employee.id} value={employee.id}>
+                            {employee.first_name} {employee.last_name}
+                          </SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="effective-from">Changes take effect from</Label>
+              <Input
+                id="effective-from"
+                type="date"
+                className="h-8 w-44"
+                value={effectiveFrom}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setEffectiveFrom(e.target.value);
+                  resetDrafts();
+                }}
+              />
+            </div>
+          </div>
+          {!scopeReady ? (
+            <p className="text-sm text-muted-foreground">Choose who the policies apply to.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Leave Type</TableHead>
+                  <TableHead>Annual Quota</TableHead>
+                  <TableHead>Max Consecutive Days</TableHead>
+                  <TableHead>Requires Approval</TableHead>
+                  <TableHead>Accrual</TableHead>
+                  <TableHead>Carryover</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaveTypes.filter(type => type.is_active).map(({ id: leaveType }) => {
+                  const draft = draftFor(leaveType);
+                  const dirty = isDirty(leaveType);
+                  const override = policyFor(leaveType);
+                  const inherited = override ? undefined : inheritedPolicyFor(leaveType);
+                  return (
+                    <TableRow key={leaveType}>
+                      <TableCell className="font-medium">
+                        {typeName(leaveType)}
+                        {!override && (
+                          <div className="text-xs text-muted-foreground">
+                            {!inherited
+                            ? 'No policy yet'
+                            : isGlobalScope(inherited)
+                              ? 'Inherits the policy for everyone'
+                              : `Inherits from ${scopeLabel(inherited)}`}
+                          </div>
+                        )}
+                        {rowErrors[leaveType] && <div className="text-xs text-destructive">{rowErrors[leaveType]}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="h-8 w-24"
+                          inputMode="numeric"
+                          value={draft.annual_quota}
+                          onChange={(e) => updateDraft(leaveType, { annual_quota: e.target.value })}
+                          aria-label={`${typeName(leaveType)} annual quota`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          className="h-8 w-24"
+                          inputMode="numeric"
+                          placeholder="No limit"
+                          value={draft.max_consecutive_days}
+                          onChange={(e) => updateDraft(leaveType, { max_consecutive_days: e.target.value })}
+                          aria-label={`${typeName(leaveType)} max consecutive days`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={draft.requires_approval}
+                          onCheckedChange={(checked) => updateDraft(leaveType, { requires_approval: checked })}
+                          aria-label={`${typeName(leaveType)} requires approval`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={draft.accrual_schedule}
+                          onValueChange={(value) => updateDraft(leaveType, { accrual_schedule: value as AccrualSchedule })}
+                        >
+                          <SelectTrigger className="h-8 w-36" aria-label={`${typeName(leaveType)} accrual`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ACCRUAL_SCHEDULES).map(([schedule, label]) => (
+                              <SelectItem key={schedule} value={schedule}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            className="h-8 w-20"
+                            inputMode="numeric"
+                            value={draft.max_carryover_days}
+                            onChange={(e) => updateDraft(leaveType, { max_carryover_days: e.target.value })}
+                            aria-label={`${typeName(leaveType)} max carryover days`}
+                          />
+                          <Select
+                            value={draft.carryover_expiry_months}
+                            onValueChange={(value) => updateDraft(leaveType, { carryover_expiry_months: value })}
+                          >
+                            <SelectTrigger className="h-8 w-44" aria-label={`${typeName(leaveType)} carryover expiry`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NEVER_EXPIRES}>Never expires</SelectItem>
+                              {EXPIRY_MONTHS.map((month) => (
+                                <SelectItem key={month} value={String(month)}>
+                                  Use by end of {monthName(month)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {drafts[leaveType] && (
+                          <Button variant="ghost" size="sm" onClick={() => discardDraft(leaveType)}>
+                            Reset
+                          </Button>
+                        )}
+                        {override && !isGlobalScope(scope) && !drafts[leaveType] && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveOverride(leaveType)}>
+                            Remove Override
+                          </Button>
+                        )}
+                        <Button size="sm" disabled={!dirty || previewing !== null} onClick={() => handleReview(leaveType)}>
+                          {previewing === leaveType && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AccrualSettingsCard />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>History</CardTitle>
+            <CardDescription>
+              {isGlobalScope(scope)
+                ? 'Every policy version and when it was in force.'
+                : `Every version that applies to ${scopeLabel(scope)}, including the ones it inherits.`}
+            </CardDescription>
+          </div>
+          <Select value={historyType} onValueChange={setHistoryType}>
+            <SelectTrigger className="h-9 w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TYPES}>All leave types</SelectItem>
+              {leaveTypes.map((type) => (
+                <SelectItem key={type.id} value={type.id}>
+                  {type.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Leave Type</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>In Force</TableHead>
+                <TableHead>Quota</TableHead>
+                <TableHead>Max Consecutive Days</TableHead>
+                <TableHead>Approval</TableHead>
+                <TableHead>Accrual</TableHead>
+                <TableHead>Carryover</TableHead>
+                <TableHead>Changed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {historyRows.map((policy) => (
+                <TableRow key={policy.id} className={isSuperseded(policy) ? 'opacity-60' : ''}>
+                  <TableCell className="font-medium">{typeName(policy.leave_type)}</TableCell>
+                  <TableCell>{scopeLabel(policy)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {isSuperseded(policy) ? (
+                        <Badge variant="outline">Superseded</Badge>
+                      ) : (
+                        <>
+                          <span>
+                            {policy.effective_to
+                              ? `${formatDate(policy.effective_from)} – ${formatDate(policy.effective_to)}`
+                              : `From ${formatDate(policy.effective_from)}`}
+                          </span>
+                          {isInForce(policy, today) && <Badge variant="secondary">Current</Badge>}
+                          {policy.effective_from > today && <Badge variant="outline">Scheduled</Badge>}
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{describeQuota(policy.annual_quota)}</TableCell>
+                  <TableCell>{describeLimit(policy.max_consecutive_days)}</TableCell>
+                  <TableCell>{policy.requires_approval === false ? 'Automatic' : 'Required'}</TableCell>
+                  <TableCell>{ACCRUAL_SCHEDULES[policy.accrual_schedule]}</TableCell>
+                  <TableCell>{describeCarryover(policy.max_carryover_days, policy.carryover_expiry_months)}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDate(policy.created_at)}
+                    {policy.changer && ` by ${policy.changer.first_name} ${policy.changer.last_name}`}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!pendingChange} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Update the {pendingChange && typeName(pendingChange.leaveType)} policy for {scopeLabel(scope)}?
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-3">
+                {pendingChange && (
+                  <>
+                    <ul className="list-disc space-y-1 pl-5">
+                      {describeChanges(pendingChange.leaveType, pendingChange.values).map((change) => (
+                        <li key={change}>{change}</li>
+                      ))}
+                    </ul>
+                    <p>
+                      {pendingChange.preview.employees_affected === 0
+                        ? `No employee's entitlement for ${parseISO(effectiveFrom).getFullYear()} changes.`
+                        : `Entitlement for ${parseISO(effectiveFrom).getFullYear()} changes for ${pendingChange.preview.employees_affected} ${pendingChange.preview.employees_affected === 1 ? 'employee' : 'employees'}.`}
+                    </p>
+                    {pendingChange.preview.employees_over_quota > 0 && (
+                      <p>
+                        {pendingChange.preview.employees_over_quota} already booked more than their new entitlement. Their
+                        existing leave is kept, but they cannot book more.
+                      </p>
+                    )}
+                    {pendingChange.preview.pending_over_limit > 0 && (
+                      <p>
+                        {pendingChange.preview.pending_over_limit} pending{' '}
+                        {pendingChange.preview.pending_over_limit === 1 ? 'request is' : 'requests are'} longer than the
+                        new limit and can still be approved.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving}
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Policy
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { UserRole, formatRole, getPrimaryRole } from '@/lib/roles';
+import { UpdateRequest, runUpdate } from '@/lib/run-update';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { InvitationsCard } from '@/components/admin/InvitationsCard';
+import { LocationsCard } from '@/components/admin/LocationsCard';
+import { useDepartments } from '@/hooks/use-departments';
+import { useLocations } from '@/hooks/use-locations';
+import { ChevronDown, Search } from 'lucide-react';
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+  location_id: string | null;
+  manager_id: string | null;
+  is_active: boolean;
+  roles: UserRole[];
+}
+
+const NO_MANAGER = 'none';
+const NO_DEPARTMENT = 'none';
+const NO_LOCATION = 'none';
+
+// Everyone is an employee; these are the roles admins can grant on top
+const GRANTABLE_ROLES: UserRole[] = ['manager', 'admin'];
+
+const fullName = (user: { first_name: string; last_name: string }) => `${user.first_name} ${user.last_name}`;
+
+export default function AdminUsers() {
+  const { profile } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const departments = useDepartments();
+  const { locations, refresh: refreshLocations } = useLocations();
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const [{ data: profiles, error }, { data: roleRows }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, email, first_name, last_name, department_id, location_id, manager_id, is_active')
+          .order('last_name', { ascending: true }),
+        supabase.from('user_roles').select('user_id, role'),
+      ]);
+
+      if (error) throw error;
+
+      setUsers(
+        (profiles || []).map(user => ({
+          ...user,
+          roles: (roleRows || []).filter(row => row.user_id === user.id).map(row => row.role),
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs an admin RPC, then reloads so the table reflects what the server stored
+  const updateUser = async (request: UpdateRequest, success: string) => {
+    await runUpdate(request, { title: 'User Updated', success });
+    fetchUsers();
+  };
+
+  const handleRoleToggle = (user: ManagedUser, role: UserRole, granted: boolean) => {
+    const roles = granted ? [...user.roles, role] : user.roles.filter(r => r !== role);
+    updateUser(
+      supabase.rpc('set_user_roles', { p_user_id: user.id, p_roles: roles }),
+      `${fullName(user)} is now ${formatRole(getPrimaryRole(roles)).toLowerCase()}.`
+    );
+  };
+
+  const handleDepartmentChange = (user: ManagedUser, departmentId: string) => {
+    updateUser(
+      supabase.rpc('set_user_department', {
+        p_user_id: user.id,
+        p_department_id: departmentId === NO_DEPARTMENT ? null : departmentId,
+      }),
+      `${fullName(user)}'s department was updated.`
+    );
+  };
+
+  const handleLocationChange = (user: ManagedUser, locationId: string) => {
+    updateUser(
+      supabase.rpc('set_user_location', {
+        p_user_id: user.id,
+        p_location_id: locationId === NO_LOCATION ? null : locationId,
+      }),
+      `${fullName(user)}'s location was updated.`
+    );
+  };
+
+  const handleManagerChange = (user: ManagedUser, managerId: string) => {
+    updateUser(
+      supabase.rpc('set_user_manager', {
+        p_user_id: user.id,
+        p_manager_id: managerId === NO_MANAGER ? null : managerId,
+      }),
+      `${fullName(user)}'s manager was updated.`
+    );
+  };
+
+  const handleActiveChange = (user: ManagedUser, active: boolean) => {
+    updateUser(
+      supabase.rpc('set_user_active', { p_user_id: user.id, p_active: active }),
+      `${fullName(user)} was ${active ? 'activated' : 'deactivated'}.`
+    );
+  };
+
+  // Keep a user's current manager selectable even if they have since lost the role
+  const managerOptions = (user: ManagedUser) =>
+    users.filter(other =>
+      other.id !== user.id &&
+      (other.id === user.manager_id || (other.roles.includes('manager') && other.is_active))
+    );
+  const departmentName = (departmentId: string | null) =>
+    departments.find(department => department.id === departmentId)?.name ?? '';
+  const directReportCount = (userId: string) => users.filter(user => user.manager_id === userId).length;
+
+  const query = search.trim().toLowerCase();
+  const filteredUsers = query
+    ? users.filter(user =>
+        [fullName(user), user.email, departmentName(user.department_id)].some(value => value.toLowerCase().includes(query))
+      )
+    : users;
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Manage Users</h1>
+        <p className="text-muted-foreground">Roles, reporting lines and account status for everyone in the organization.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            {users.length} {users.length === 1 ? 'user' : 'users'}, {users.filter(user => user.is_active).length} active
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, email or department"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Roles</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Manager</TableHead>
+                <TableHead className="text-right">Direct Reports</TableHead>
+                <TableHead>Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map((user) => {
+                const isSelf = user.id === profile?.id;
+                return (
+                  <TableRow key={user.id} className={user.is_active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{fullName(user)}</div>
+                      <div className="text-xs text-muted-foreground">{user.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="sm" className="gap-1">
+                            {GRANTABLE_ROLES.filter(role => user.roles.includes(role)).map(formatRole).join(', ') || 'Employee'}
+                            <ChevronDown className="h-3 w-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="start">
+                          {GRANTABLE_ROLES.map((role) => (
+                            <DropdownMenuCheckboxItem
+                              key={role}
+                              checked={user.roles.includes(role)}
+                              disabled={isSelf && role === 'admin'}
+                              onCheckedChange={(checked) => handleRoleToggle(user, role, checked)}
+                            >
+                              {formatRole(role)}
+                            </DropdownMenuCheckboxItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.department_id ?? NO_DEPARTMENT}
+                        onValueChange={(value) => handleDepartmentChange(user, value)}
+                      >
+                        <SelectTrigger className="h-8 w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                          {departments.map(department => (
+                            <SelectItem key={department.id} value={department.id}>
+                              {department.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.location_id ?? NO_LOCATION}
+                        onValueChange={(value) => handleLocationChange(user, value)}
+                      >
+                        <SelectTrigger className="h-8 w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_LOCATION}>No location</SelectItem>
+                          {locations.map(location => (
+                            <SelectItem key={location.id} value={location.id}>
+                              {location.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.manager_id ?? NO_MANAGER}
+                        onValueChange={(value) => handleManagerChange(user, value)}
+                      >
+                        <SelectTrigger className="h-8 w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                          {managerOptions(user).map(manager => (
+                            <SelectItem key={manager.id} value={manager.id}>
+                              {fullName(manager)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right">{directReportCount(user.id)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.is_active}
+                        disabled={isSelf}
+                        onCheckedChange={(checked) => handleActiveChange(user, checked)}
+                        aria-label={user.is_active ? 'Deactivate user' : 'Activate user'}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <InvitationsCard
+        managers={users.filter(user => user.roles.includes('manager') && user.is_active)}
+        departments={departments}
+      />
+
+      <LocationsCard
+        locations={locations}
+        members={users}
+        onChange={() => {
+          refreshLocations();
+          fetchUsers();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { describeError } from '@/lib/errors';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { LeaveTypeLabel } from '@/components/leave/LeaveTypeLabel';
+import { toast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+type RolloverPreview = Database['public']['Functions']['preview_year_end_rollover']['Returns'][number];
+
+interface Rollover {
+  id: string;
+  from_year: number;
+  run_at: string;
+  reversed_at: string | null;
+  runner: { first_name: string; last_name: string } | null;
+  reverser: { first_name: string; last_name: string } | null;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'PP');
+// Amounts have two decimals; round away floating point noise in the totals
+const sum = (rows: RolloverPreview[], field: 'carryover' | 'forfeited') =>
+  Math.round(rows.reduce((total, row) => total + row[field], 0) * 100) / 100;
+
+export default function AdminYearEnd() {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear - 1);
+  const [preview, setPreview] = useState<RolloverPreview[]>([]);
+  const [rollovers, setRollovers] = useState<Rollover[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [confirmRun, setConfirmRun] = useState(false);
+  const [pendingReversal, setPendingReversal] = useState<Rollover | null>(null);
+  const [saving, setSaving] = useState(false);
+  const leaveTypes = useLeaveTypes();
+
+  useEffect(() => {
+    fetchRollovers();
+  }, []);
+
+  useEffect(() => {
+    fetchPreview(year);
+  }, [year]);
+
+  const fetchRollovers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('leave_rollovers')
+        .select(
+          'id, from_year, run_at, reversed_at, runner:profiles!leave_rollovers_run_by_fkey(first_name, last_name), reverser:profiles!leave_rollovers_reversed_by_fkey(first_name, last_name)'
+        )
+        .order('run_at', { ascending: false });
+
+      if (error) throw error;
+      setRollovers(data || []);
+    } catch (error) {
+      console.error('Error fetching rollovers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchPreview = async (fromYear: number) => {
+    setPreviewLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_year_end_rollover', { p_year: fromYear });
+      if (error) throw error;
+      // Balances that are fully used have nothing to carry or lose
+      setPreview((data || []).filter(row => row.unused > 0));
+    } catch (error) {
+      console.error('Error previewing rollover:', error);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const activeRollover = rollovers.find(rollover => rollover.from_year === year && !rollover.reversed_at);
+  const yearEnded = year < currentYear;
+
+  const handleRun = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('run_year_end_rollover', { p_year: year });
+      if (error) {
+        toast({ title: 'Rollover Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: 'Rollover Complete',
+        description: `Unused ${year} leave was carried into ${year + 1}.`,
+      });
+      setConfirmRun(false);
+      fetchRollovers();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReverse = async () => {
+    if (!pendingReversal) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('reverse_year_end_rollover', { p_rollover_id: pendingReversal.id });
+      if (error) {
+        toast({ title: 'Reversal Failed', description: describeError(error), variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: 'Rollover Reversed',
+        description: `Days carried over from ${pendingReversal.from_year} were taken back out of ${pendingReversal.from_year + 1}.`,
+      });
+      setPendingReversal(null);
+      fetchRollovers();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Year-End Rollover</h1>
+        <p className="text-muted-foreground">Carry unused leave into the next year within each policy's limits.</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              {year} → {year + 1}
+            </CardTitle>
+            <CardDescription>
+              {activeRollover
+                ? `${year} was rolled over on ${formatDate(activeRollover.run_at)}. These figures are what it would carry today.`
+                : yearEnded
+                  ? 'Review what each employee will carry over or lose before running the rollover.'
+                  : `A projection from current balances. ${year} can be rolled over from 1 January ${year + 1}.`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="h-9 w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 5 }, (_, index) => currentYear - index).map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-9" disabled={!yearEnded || !!activeRollover} onClick={() => setConfirmRun(true)}>
+              Run Rollover
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {previewLoading ? (
+            <div className="flex items-center justify-center h-32">Loading...</div>
+          ) : preview.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody has unused leave in {year}.</p>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {sum(preview, 'carryover')} days carried over · {sum(preview, 'forfeited')} days lost over the limit
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee</TableHead>
+                    <TableHead>Leave Type</TableHead>
+                    <TableHead className="text-right">Entitlement</TableHead>
+                    <TableHead className="text-right">Used</TableHead>
+                    <TableHead className="text-right">Unused</TableHead>
+                    <TableHead className="text-right">Carried Over</TableHead>
+                    <TableHead className="text-right">Lost</TableHead>
+                    <TableHead>Use By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((row) => (
+                    <TableRow key={`${row.employee_id}-${row.leave_type}`}>
+                      <TableCell className="font-medium">
+                        {row.first_name} {row.last_name}
+                      </TableCell>
+                      <TableCell>
+                        <LeaveTypeLabel leaveTypes={leaveTypes} id={row.leave_type} />
+                      </TableCell>
+                      <TableCell className="text-right">{row.entitlement}</TableCell>
+                      <TableCell className="text-right">{row.used}</TableCell>
+                      <TableCell className="text-right">{row.unused}</TableCell>
+                      <TableCell className="text-right">{row.carryover}</TableCell>
+                      <TableCell className={row.forfeited > 0 ? 'text-right text-destructive' : 'text-right'}>
+                        {row.forfeited}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {row.expires_on ? formatDate(row.expires_on) : row.carryover > 0 ? 'No expiry' : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>
+            Carried days are posted to balances as ledger entries. Reversing a rollover posts opposite entries, including
+            for any carryover that has since expired, so it can then be run again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rollovers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rollovers yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rollovers.map((rollover) => (
+                  <TableRow key={rollover.id} className={rollover.reversed_at ? 'opacity-60' : ''}>
+                    <TableCell className="font-medium">
+                      {rollover.from_year} → {rollover.from_year + 1}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDate(rollover.run_at)}
+                      {rollover.runner && ` by ${rollover.runner.first_name} ${rollover.runner.last_name}`}
+                    </TableCell>
+                    <TableCell>
+                      {rollover.reversed_at ? (
+                        <span className="text-muted-foreground">
+                          Reversed {formatDate(rollover.reversed_at)}
+                          {rollover.reverser && ` by ${rollover.reverser.first_name} ${rollover.reverser.last_name}`}
+                        </span>
+                      ) : (
+                        <Badge variant="secondary">Posted</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!rollover.reversed_at && (
+                        <Button variant="ghost" size="sm" onClick={() => setPendingReversal(rollover)}>
+                          Reverse
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmRun} onOpenChange={(open) => !open && setConfirmRun(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll {year} over into {year + 1}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {sum(preview, 'carryover')} days are carried over and {sum(preview, 'forfeited')} days over the carryover
+              limits are lost. Carried days that are not used by their expiry date are removed automatically.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving}
+              onClick={(e) => {
+                e.preventDefault();
+                handleRun();
+              }}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Run Rollover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!pendingReversal} onOpenChange={(open) => !open && setPendingReversal(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reverse the {pendingReversal?.from_year} rollover?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every day it carried into {pendingReversal && pendingReversal.from_year + 1} is taken back out of employees'
+              balances. Requests already booked against those days are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={saving}
+              onClick={(e) => {
+                e.preventDefault();
+                handleReverse();
+              }}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reverse Rollover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
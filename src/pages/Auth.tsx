@@ -1,12 +1,13 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { describeError } from '@/lib/errors';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import { Loader2, Calendar, Users } from 'lucide-react';
 
@@ -19,11 +20,52 @@ export default function Auth() {
     confirmPassword: '',
     first_name: '',
     last_name: '',
-    role: 'employee'
   });
   
+  const [allowOpenSignup, setAllowOpenSignup] = useState(true);
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
+  
   const { signIn, signUp } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+
+  useEffect(() => {
+    supabase
+      .from('org_settings')
+      .select('allow_open_signup')
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setAllowOpenSignup(data.allow_open_signup);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    supabase
+      .rpc('get_invitation', { p_token: inviteToken })
+      .then(({ data }) => {
+        const invitation = data?.[0];
+        if (invitation) {
+          setInvitedEmail(invitation.email);
+          setSignUpData((current) => ({
+            ...current,
+            email: invitation.email,
+            first_name: invitation.first_name || current.first_name,
+            last_name: invitation.last_name || current.last_name,
+          }));
+        } else {
+          toast({
+            title: 'Invitation Invalid',
+            description: 'This invitation link has expired or was already used.',
+            variant: 'destructive',
+          });
+        }
+      });
+  }, [inviteToken]);
+
+  const canSignUp = allowOpenSignup || !!invitedEmail;
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -80,10 +122,24 @@ export default function Auth() {
     setLoading(true);
     
     try {
+      const { error: checkError } = await supabase.rpc('check_signup', {
+        p_email: signUpData.email,
+        p_invite_token: invitedEmail ? inviteToken : undefined,
+      });
+
+      if (checkError) {
+        toast({
+          title: 'Sign Up Failed',
+          description: describeError(checkError),
+          variant: 'destructive',
+        });
+        return;
+      }
+
       const { error } = await signUp(signUpData.email, signUpData.password, {
         first_name: signUpData.first_name,
         last_name: signUpData.last_name,
-        role: signUpData.role
+        invite_token: invitedEmail ? inviteToken : undefined,
       });
       
       if (error) {
@@ -139,7 +195,7 @@ export default function Auth() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="signin" className="w-full">
+            <Tabs defaultValue={inviteToken ? 'signup' : 'signin'} className="w-full">
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="signin">Sign In</TabsTrigger>
                 <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -183,86 +239,85 @@ export default function Auth() {
               </TabsContent>
               
               <TabsContent value="signup">
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
+                {!canSignUp ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">
+                    Sign up is by invitation only. Ask an administrator to send you an invitation link.
+                  </p>
+                ) : (
+                  <form onSubmit={handleSignUp} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="first-name">First Name</Label>
+                        <Input
+                          id="first-name"
+                          placeholder="John"
+                          value={signUpData.first_name}
+                          onChange={(e) => setSignUpData({ ...signUpData, first_name: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="last-name">Last Name</Label>
+                        <Input
+                          id="last-name"
+                          placeholder="Doe"
+                          value={signUpData.last_name}
+                          onChange={(e) => setSignUpData({ ...signUpData, last_name: e.target.value })}
+                          required
+                        />
+                      </div>
+                    </div>
                     <div className="space-y-2">
-                      <Label htmlFor="first-name">First Name</Label>
+                      <Label htmlFor="signup-email">Email</Label>
                       <Input
-                        id="first-name"
-                        placeholder="John"
-                        value={signUpData.first_name}
-                        onChange={(e) => setSignUpData({ ...signUpData, first_name: e.target.value })}
+                        id="signup-email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={signUpData.email}
+                        onChange={(e) => setSignUpData({ ...signUpData, email: e.target.value })}
+                        readOnly={!!invitedEmail}
                         required
                       />
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="last-name">Last Name</Label>
+                      <Label htmlFor="signup-password">Password</Label>
                       <Input
-                        id="last-name"
-                        placeholder="Doe"
-                        value={signUpData.last_name}
-                        onChange={(e) => setSignUpData({ ...signUpData, last_name: e.target.value })}
+                        id="signup-password"
+                        type="password"
+                        placeholder="Create a password"
+                        value={signUpData.password}
+                        onChange={(e) => setSignUpData({ ...signUpData, password: e.target.value })}
                         required
                       />
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-email">Email</Label>
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={signUpData.email}
-                      onChange={(e) => setSignUpData({ ...signUpData, email: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="role">Role</Label>
-                    <Select value={signUpData.role} onValueChange={(value) => setSignUpData({ ...signUpData, role: value })}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="employee">Employee</SelectItem>
-                        <SelectItem value="manager">Manager</SelectItem>
-                        <SelectItem value="admin">Admin</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signup-password">Password</Label>
-                    <Input
-                      id="signup-password"
-                      type="password"
-                      placeholder="Create a password"
-                      value={signUpData.password}
-                      onChange={(e) => setSignUpData({ ...signUpData, password: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="confirm-password">Confirm Password</Label>
-                    <Input
-                      id="confirm-password"
-                      type="password"
-                      placeholder="Confirm your password"
-                      value={signUpData.confirmPassword}
-                      onChange={(e) => setSignUpData({ ...signUpData, confirmPassword: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <Button type="submit" className="w-full" disabled={loading}>
-                    {loading ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Creating Account...
-                      </>
-                    ) : (
-                      'Create Account'
-                    )}
-                  </Button>
-                </form>
+                    <div className="space-y-2">
+                      <Label htmlFor="confirm-password">Confirm Password</Label>
+                      <Input
+                        id="confirm-password"
+                        type="password"
+                        placeholder="Confirm your password"
+                        value={signUpData.confirmPassword}
+                        onChange={(e) => setSignUpData({ ...signUpData, confirmPassword: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {invitedEmail
+                        ? 'Your role, department and manager were set up by the administrator who invited you.'
+                        : 'New accounts start with employee access. Ask an administrator if you need manager or admin access.'}
+                    </p>
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Creating Account...
+                        </>
+                      ) : (
+                        'Create Account'
+                      )}
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
             </Tabs>
           </CardContent>
@@ -3,6 +3,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { LeaveBalanceCards } from '@/components/leave/LeaveBalanceCards';
+import { LeaveStatusBadge } from '@/components/leave/LeaveStatusBadge';
+import { LeaveTypeLabel } from '@/components/leave/LeaveTypeLabel';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
 import { Calendar, Clock, CheckCircle, XCircle, Users, AlertCircle } from 'lucide-react';
 
 interface DashboardStats {
@@ -19,11 +23,13 @@ interface RecentRequest {
   start_date: string;
   end_date: string;
   status: string;
+  auto_approved: boolean;
   employee_name?: string;
 }
 
 export default function Dashboard() {
-  const { profile } = useAuth();
+  const { profile, primaryRole } = useAuth();
+  const leaveTypes = useLeaveTypes();
   const [stats, setStats] = useState<DashboardStats>({
     totalRequests: 0,
     pendingRequests: 0,
@@ -37,11 +43,11 @@ export default function Dashboard() {
     if (profile) {
       fetchDashboardData();
     }
-  }, [profile]);
+  }, [profile, primaryRole]);
 
   const fetchDashboardData = async () => {
     try {
-      if (profile?.role === 'admin') {
+      if (primaryRole === 'admin') {
         // Admin sees all requests and employee count
         const { data: requests } = await supabase
           .from('leave_requests')
@@ -51,6 +57,7 @@ export default function Dashboard() {
             start_date,
             end_date,
             status,
+            auto_approved,
             employee_id,
             profiles!leave_requests_employee_id_fkey(first_name, last_name)
           `)
@@ -59,7 +66,8 @@ export default function Dashboard() {
 
         const { count: totalEmployees } = await supabase
           .from('profiles')
-          .select('*', { count: 'exact', head: true });
+          .select('*', { count: 'exact', head: true })
+          .eq('is_active', true);
 
         const { count: totalRequests } = await supabase
           .from('leave_requests')
@@ -95,10 +103,11 @@ export default function Dashboard() {
             start_date: req.start_date,
             end_date: req.end_date,
             status: req.status,
+            auto_approved: req.auto_approved,
             employee_name: req.profiles ? `${req.profiles.first_name} ${req.profiles.last_name}` : 'Unknown'
           }))
         );
-      } else if (profile?.role === 'manager') {
+      } else if (primaryRole === 'manager') {
         // Manager sees team requests - simplified approach
         const { data: requests } = await supabase
           .from('leave_requests')
@@ -139,6 +148,7 @@ export default function Dashboard() {
               start_date: req.start_date,
               end_date: req.end_date,
               status: req.status,
+              auto_approved: req.auto_approved,
               employee_name: employee ? `${employee.first_name} ${employee.last_name}` : 'Unknown'
             };
           })
@@ -173,6 +183,7 @@ export default function Dashboard() {
             start_date: req.start_date,
             end_date: req.end_date,
             status: req.status,
+            auto_approved: req.auto_approved,
           }))
         );
       }
@@ -183,23 +194,6 @@ export default function Dashboard() {
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'approved':
-        return <Badge variant="default" className="bg-success text-success-foreground">Approved</Badge>;
-      case 'rejected':
-        return <Badge variant="destructive">Rejected</Badge>;
-      case 'pending':
-        return <Badge variant="secondary">Pending</Badge>;
-      default:
-        return <Badge variant="outline">{status}</Badge>;
-    }
-  };
-
-  const formatLeaveType = (type: string) => {
-    return type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
-  };
-
   if (loading) {
     return <div className="flex items-center justify-center h-64">Loading...</div>;
   }
@@ -211,7 +205,7 @@ export default function Dashboard() {
           Welcome back, {profile?.first_name}!
         </h1>
         <p className="text-muted-foreground">
-          Here's an overview of your {profile?.role === 'employee' ? 'leave requests' : 'team activity'}.
+          Here's an overview of your {primaryRole === 'employee' ? 'leave requests' : 'team activity'}.
         </p>
       </div>
 
@@ -225,7 +219,7 @@ export default function Dashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalRequests}</div>
             <p className="text-xs text-muted-foreground">
-              {profile?.role === 'employee' ? 'Your submissions' : 'Team submissions'}
+              {primaryRole === 'employee' ? 'Your submissions' : 'Team submissions'}
             </p>
           </CardContent>
         </Card>
@@ -256,7 +250,7 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
-        {profile?.role === 'admin' ? (
+        {primaryRole === 'admin' ? (
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Employees</CardTitle>
@@ -285,12 +279,18 @@ export default function Dashboard() {
         )}
       </div>
 
+      {/* Leave Balances */}
+      <div className="space-y-2">
+        <h2 className="text-xl font-semibold">Your Leave Balance</h2>
+        <LeaveBalanceCards employeeId={profile.id} />
+      </div>
+
       {/* Recent Requests */}
       <Card>
         <CardHeader>
           <CardTitle>Recent Leave Requests</CardTitle>
           <CardDescription>
-            {profile?.role === 'employee' 
+            {primaryRole === 'employee' 
               ? 'Your latest leave requests' 
               : 'Latest requests from your team'
             }
@@ -310,8 +310,11 @@ export default function Dashboard() {
                 <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
                   <div className="space-y-1">
                     <div className="flex items-center gap-2">
-                      <h4 className="font-medium">{formatLeaveType(request.leave_type)}</h4>
-                      {getStatusBadge(request.status)}
+                      <h4 className="font-medium">
+                        <LeaveTypeLabel leaveTypes={leaveTypes} id={request.leave_type} />
+                      </h4>
+                      <LeaveStatusBadge status={request.status} />
+                      {request.auto_approved && <Badge variant="outline">Auto-approved by policy</Badge>}
                     </div>
                     <p className="text-sm text-muted-foreground">
                       {request.start_date} to {request.end_date}
@@ -0,0 +1,20 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+
+const Forbidden = () => {
+  return (
+    <div className="flex items-center justify-center h-[60vh]">
+      <div className="text-center space-y-4">
+        <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground" />
+        <h1 className="text-4xl font-bold">403</h1>
+        <p className="text-xl text-muted-foreground">You don't have permission to view this page.</p>
+        <Button asChild variant="outline">
+          <Link to="/dashboard">Back to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { LeaveType, countWorkingDays, toDateString } from '@/lib/leave';
+import { describeError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Calendar } from '@/components/ui/calendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useHolidays } from '@/hooks/use-holidays';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { LeaveTypeLabel } from '@/components/leave/LeaveTypeLabel';
+import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { CalendarIcon, Loader2 } from 'lucide-react';
+
+const requiresReason = (leaveTypes: LeaveType[], id: string) =>
+  !!leaveTypes.find(type => type.id === id)?.requires_reason;
+
+// Whether a reason is required depends on the leave type, so the schema is built from the loaded types
+const makeLeaveRequestSchema = (leaveTypes: LeaveType[]) => z
+  .object({
+    leave_type: z.string({ required_error: 'Please select a leave type.' }),
+    dates: z
+      .object({
+        from: z.date().optional(),
+        to: z.date().optional(),
+      })
+      .refine((dates) => dates.from && dates.to, { message: 'Please select a start and end date.' }),
+    description: z.string().trim().max(1000, 'Description must be 1000 characters or less.').optional(),
+    custom_reason: z.string().trim().max(200, 'Reason must be 200 characters or less.').optional(),
+  })
+  .refine((values) => !requiresReason(leaveTypes, values.leave_type) || !!values.custom_reason, {
+    message: 'Please describe the reason for this leave.',
+    path: ['custom_reason'],
+  });
+
+type LeaveRequestFormValues = z.infer<ReturnType<typeof makeLeaveRequestSchema>>;
+
+export default function LeaveRequest() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [submitting, setSubmitting] = useState(false);
+  const holidays = useHolidays();
+  const leaveTypes = useLeaveTypes();
+  const schema = useMemo(() => makeLeaveRequestSchema(leaveTypes), [leaveTypes]);
+
+  const form = useForm<LeaveRequestFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      dates: { from: undefined, to: undefined },
+      description: '',
+      custom_reason: '',
+    },
+  });
+
+  const leaveType = form.watch('leave_type');
+  const dates = form.watch('dates');
+  const workingDays = dates?.from && dates?.to ? countWorkingDays(dates.from, dates.to, holidays) : null;
+
+  const onSubmit = async (values: LeaveRequestFormValues) => {
+    if (!profile) return;
+    setSubmitting(true);
+
+    try {
+      const { data, error } = await supabase.from('leave_requests').insert({
+        employee_id: profile.id,
+        leave_type: values.leave_type,
+        start_date: toDateString(values.dates.from),
+        end_date: toDateString(values.dates.to),
+        description: values.description || null,
+        custom_reason: requiresReason(leaveTypes, values.leave_type) ? values.custom_reason : null,
+      }).select('status, auto_approved').single();
+
+      if (error) {
+        toast({
+          title: 'Request Failed',
+          description: describeError(error),
+          variant: 'destructive',
+          // Overlap errors carry the conflicting request id in the hint
+          action: error.code === 'LV003' && error.hint ? (
+            <ToastAction altText="View conflicting request" onClick={() => navigate(`/leave/my-requests?request=${error.hint}`)}>
+              View request
+            </ToastAction>
+          ) : undefined,
+        });
+      } else {
+        toast({
+          title: data.auto_approved ? 'Leave Approved' : 'Request Submitted',
+          description: data.auto_approved
+            ? 'This leave type does not require approval, so your request was approved automatically.'
+            : 'Your leave request has been submitted for approval.',
+        });
+        navigate('/leave/my-requests');
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'An unexpected error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Request Leave</h1>
+        <p className="text-muted-foreground">Submit a new leave request for approval.</p>
+      </div>
+
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Leave Details</CardTitle>
+          <CardDescription>Choose the type of leave and the dates you will be away.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="leave_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Leave Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a leave type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {leaveTypes
+                          .filter(type => type.is_active)
+                          .map((type) => (
+                            <SelectItem key={type.id} value={type.id}>
+                              <LeaveTypeLabel leaveTypes={leaveTypes} id={type.id} />
+                              {!type.is_paid && <span className="ml-2 text-xs text-muted-foreground">Unpaid</span>}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {requiresReason(leaveTypes, leaveType) && (
+                <FormField
+                  control={form.control}
+                  name="custom_reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Jury duty" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="dates"
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>Dates</FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant="outline"
+                            className={cn(
+                              'justify-start text-left font-normal',
+                              !field.value?.from && 'text-muted-foreground'
+                            )}
+                          >
+                            <CalendarIcon className="mr-2 h-4 w-4" />
+                            {field.value?.from ? (
+                              field.value.to ? (
+                                <>
+                                  {format(field.value.from, 'PPP')} - {format(field.value.to, 'PPP')}
+                                </>
+                              ) : (
+                                format(field.value.from, 'PPP')
+                              )
+                            ) : (
+                              <span>Pick a date range</span>
+                            )}
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="range"
+                          numberOfMonths={2}
+                          selected={field.value as DateRange}
+                          onSelect={(range) => field.onChange({ from: range?.from, to: range?.to })}
+                          initialFocus
+                          className="p-3 pointer-events-auto"
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    {workingDays !== null && (
+                      <FormDescription>
+                        {workingDays} working {workingDays === 1 ? 'day' : 'days'}, excluding weekends and holidays.
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Add any details your manager should know" {...field} />
+                    </FormControl>
+                    <FormDescription>Optional.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Submitting...
+                    </>
+                  ) : (
+                    'Submit Request'
+                  )}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => navigate('/dashboard')}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
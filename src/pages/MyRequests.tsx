@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { LeaveStatus, formatLeaveStatus, leaveTypeName, toDateString } from '@/lib/leave';
+import { Constants } from '@/integrations/supabase/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { LeaveStatusBadge } from '@/components/leave/LeaveStatusBadge';
+import { CancelLeaveRequestDialog } from '@/components/leave/CancelLeaveRequestDialog';
+import { LeaveTypeLabel } from '@/components/leave/LeaveTypeLabel';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { AlertCircle } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+const SORT_OPTIONS = {
+  newest: { label: 'Newest first', column: 'created_at', ascending: false },
+  oldest: { label: 'Oldest first', column: 'created_at', ascending: true },
+  start_desc: { label: 'Start date (latest)', column: 'start_date', ascending: false },
+  start_asc: { label: 'Start date (earliest)', column: 'start_date', ascending: true },
+} as const;
+
+type SortKey = keyof typeof SORT_OPTIONS;
+
+interface MyLeaveRequest {
+  id: string;
+  leave_type: string;
+  custom_reason: string | null;
+  description: string | null;
+  start_date: string;
+  end_date: string;
+  working_days: number;
+  status: LeaveStatus;
+  auto_approved: boolean;
+  rejection_reason: string | null;
+  approver_comment: string | null;
+  cancellation_requested_at: string | null;
+  cancellation_reason: string | null;
+  approved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  approver: { first_name: string; last_name: string } | null;
+}
+
+const currentYear = new Date().getFullYear();
+const YEARS = Array.from({ length: 5 }, (_, i) => currentYear + 1 - i);
+
+const canCancel = (request: MyLeaveRequest) =>
+  request.status === 'pending' ||
+  (request.status === 'approved' && !request.cancellation_requested_at && request.start_date > toDateString(new Date()));
+
+const formatTimestamp = (value: string | null) => (value ? format(parseISO(value), 'PPp') : '—');
+
+export default function MyRequests() {
+  const { profile } = useAuth();
+  const leaveTypes = useLeaveTypes();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [requests, setRequests] = useState<MyLeaveRequest[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [yearFilter, setYearFilter] = useState<string>('all');
+  const [sort, setSort] = useState<SortKey>('newest');
+  const [selected, setSelected] = useState<MyLeaveRequest | null>(null);
+
+  const selectedId = searchParams.get('request');
+
+  useEffect(() => {
+    if (profile) {
+      fetchRequests();
+    }
+  }, [profile, page, statusFilter, typeFilter, yearFilter, sort]);
+
+  // Deep links (e.g. from an overlap error) open the detail drawer directly
+  useEffect(() => {
+    if (!profile || !selectedId || selected?.id === selectedId) return;
+
+    supabase
+      .from('leave_requests')
+      .select('*, approver:profiles!leave_requests_approved_by_fkey(first_name, last_name)')
+      .eq('id', selectedId)
+      .eq('employee_id', profile.id)
+      .maybeSingle()
+      .then(({ data }) => setSelected(data));
+  }, [profile, selectedId, selected?.id]);
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const sortOption = SORT_OPTIONS[sort];
+      let query = supabase
+        .from('leave_requests')
+        .select('*, approver:profiles!leave_requests_approved_by_fkey(first_name, last_name)', { count: 'exact' })
+        .eq('employee_id', profile.id);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter as LeaveStatus);
+      }
+      if (typeFilter !== 'all') {
+        query = query.eq('leave_type', typeFilter);
+      }
+      if (yearFilter !== 'all') {
+        // Include requests that merely touch the year
+        query = query.lte('start_date', `${yearFilter}-12-31`).gte('end_date', `${yearFilter}-01-01`);
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order(sortOption.column, { ascending: sortOption.ascending })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setRequests(data || []);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const openDetails = (request: MyLeaveRequest) => {
+    setSelected(request);
+    setSearchParams({ request: request.id }, { replace: true });
+  };
+
+  const closeDetails = () => {
+    setSelected(null);
+    setSearchParams({}, { replace: true });
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">My Requests</h1>
+        <p className="text-muted-foreground">Your full leave request history.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Leave History</CardTitle>
+          <CardDescription>
+            {totalCount} {totalCount === 1 ? 'request' : 'requests'} found
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+            <Select value={statusFilter} onValueChange={updateFilter(setStatusFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Constants.public.Enums.leave_status.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {formatLeaveStatus(status)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={updateFilter(setTypeFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Leave type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All leave types</SelectItem>
+                {leaveTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={yearFilter} onValueChange={updateFilter(setYearFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Year" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All years</SelectItem>
+                {YEARS.map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={updateFilter((value) => setSort(value as SortKey))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">Loading...</div>
+          ) : requests.length === 0 ? (
+            <div className="flex items-center justify-center h-32 text-muted-foreground">
+              <div className="text-center">
+                <AlertCircle className="h-8 w-8 mx-auto mb-2" />
+                <p>No leave requests found</p>
+              </div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id} className="cursor-pointer" onClick={() => openDetails(request)}>
+                    <TableCell className="font-medium">
+                      <LeaveTypeLabel leaveTypes={leaveTypes} id={request.leave_type} />
+                    </TableCell>
+                    <TableCell>
+                      {request.start_date} to {request.end_date}
+                    </TableCell>
+                    <TableCell className="text-right">{request.working_days}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <LeaveStatusBadge status={request.status} />
+                        {request.cancellation_requested_at && <Badge variant="outline">Cancellation requested</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(parseISO(request.created_at), 'PP')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={page === 1}
+                    className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(page - 1);
+                    }}
+                  />
+                </PaginationItem>
+                {Array.from({ length: totalPages }, (_, i) => i + 1).map((pageNumber) => (
+                  <PaginationItem key={pageNumber}>
+                    <PaginationLink
+                      href="#"
+                      isActive={pageNumber === page}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setPage(pageNumber);
+                      }}
+                    >
+                      {pageNumber}
+                    </PaginationLink>
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={page === totalPages}
+                    className={page === totalPages ? 'pointer-events-none opacity-50' : ''}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(page + 1);
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </CardContent>
+      </Card>
+
+      <Sheet open={!!selected} onOpenChange={(open) => !open && closeDetails()}>
+        <SheetContent className="overflow-y-auto">
+          {selected && (
+            <>
+              <SheetHeader>
+                <SheetTitle>{leaveTypeName(leaveTypes, selected.leave_type)}</SheetTitle>
+                <SheetDescription>
+                  {selected.start_date} to {selected.end_date} · {selected.working_days} working{' '}
+                  {selected.working_days === 1 ? 'day' : 'days'}
+                </SheetDescription>
+              </SheetHeader>
+              <dl className="mt-6 space-y-4 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Status</dt>
+                  <dd className="mt-1 flex items-center gap-2">
+                    <LeaveStatusBadge status={selected.status} />
+                    {selected.auto_approved && <Badge variant="outline">Auto-approved by policy</Badge>}
+                    {selected.cancellation_requested_at && <Badge variant="outline">Cancellation requested</Badge>}
+                  </dd>
+                </div>
+                {selected.custom_reason && (
+                  <div>
+                    <dt className="text-muted-foreground">Reason</dt>
+                    <dd className="mt-1">{selected.custom_reason}</dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-muted-foreground">Description</dt>
+                  <dd className="mt-1 whitespace-pre-wrap">{selected.description || '—'}</dd>
+                </div>
+                {selected.rejection_reason && (
+                  <div>
+                    <dt className="text-muted-foreground">Rejection reason</dt>
+                    <dd className="mt-1 whitespace-pre-wrap">{selected.rejection_reason}</dd>
+                  </div>
+                )}
+                {selected.approver_comment && (
+                  <div>
+                    <dt className="text-muted-foreground">Approver comment</dt>
+                    <dd className="mt-1 whitespace-pre-wrap">{selected.approver_comment}</dd>
+                  </div>
+                )}
+                {selected.cancellation_reason && (
+                  <div>
+                    <dt className="text-muted-foreground">Cancellation reason</dt>
+                    <dd className="mt-1 whitespace-pre-wrap">{selected.cancellation_reason}</dd>
+                  </div>
+                )}
+                <div>
+                  <dt className="text-muted-foreground">Decided by</dt>
+                  <dd className="mt-1">
+                    {selected.approver
+                      ? `${selected.approver.first_name} ${selected.approver.last_name}`
+                      : selected.auto_approved
+                        ? 'Leave policy'
+                        : '—'}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Decided at</dt>
+                  <dd className="mt-1">{formatTimestamp(selected.approved_at)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Submitted</dt>
+                  <dd className="mt-1">{formatTimestamp(selected.created_at)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Last updated</dt>
+                  <dd className="mt-1">{formatTimestamp(selected.updated_at)}</dd>
+                </div>
+              </dl>
+              {canCancel(selected) && (
+                <div className="mt-6">
+                  <CancelLeaveRequestDialog
+                    request={selected}
+                    onCancelled={() => {
+                      closeDetails();
+                      fetchRequests();
+                    }}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
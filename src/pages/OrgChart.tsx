@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { describeError } from '@/lib/errors';
+import { leaveTypeName, toDateString } from '@/lib/leave';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useDepartments } from '@/hooks/use-departments';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { toast } from '@/hooks/use-toast';
+import { ChevronDown, ChevronRight, GripVertical } from 'lucide-react';
+
+interface Person {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+  manager_id: string | null;
+}
+
+interface Absence {
+  leave_type: string;
+  end_date: string;
+}
+
+const fullName = (person: Person) => `${person.first_name} ${person.last_name}`;
+
+export default function OrgChart() {
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin');
+  const departments = useDepartments();
+  const leaveTypes = useLeaveTypes();
+  const [people, setPeople] = useState<Person[]>([]);
+  const [managerIds, setManagerIds] = useState<Set<string>>(new Set());
+  const [absences, setAbsences] = useState<Record<string, Absence>>({});
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchChart();
+  }, []);
+
+  const fetchChart = async () => {
+    try {
+      const today = toDateString(new Date());
+      const [{ data: profiles, error }, { data: roleRows }, { data: leave }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, first_name, last_name, department_id, manager_id')
+          .eq('is_active', true)
+          .order('last_name', { ascending: true }),
+        supabase.from('user_roles').select('user_id').eq('role', 'manager'),
+        supabase
+          .from('leave_requests')
+          .select('employee_id, leave_type, end_date')
+          .eq('status', 'approved')
+          .lte('start_date', today)
+          .gte('end_date', today),
+      ]);
+
+      if (error) throw error;
+
+      setPeople(profiles || []);
+      setManagerIds(new Set((roleRows || []).map(row => row.user_id)));
+      setAbsences(
+        Object.fromEntries((leave || []).map(request => [request.employee_id, request]))
+      );
+    } catch (error) {
+      console.error('Error fetching org chart:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ids = new Set(people.map(person => person.id));
+  const reportsOf = (managerId: string | null) =>
+    people.filter(person =>
+      managerId === null
+        ? !person.manager_id || !ids.has(person.manager_id)
+        : person.manager_id === managerId
+    );
+
+  // Everyone below a person; dropping them onto one of these would create a cycle
+  const descendantsOf = (personId: string): Set<string> => {
+    const found = new Set<string>();
+    const visit = (id: string) =>
+      reportsOf(id).forEach(report => {
+        if (found.has(report.id)) return;
+        found.add(report.id);
+        visit(report.id);
+      });
+    visit(personId);
+    return found;
+  };
+
+  const draggedDescendants = draggingId ? descendantsOf(draggingId) : new Set<string>();
+  const dragged = people.find(person => person.id === draggingId);
+
+  const canDropOn = (targetId: string | null) => {
+    if (!dragged) return false;
+    if (targetId === null) return !!dragged.manager_id;
+    return (
+      targetId !== dragged.id &&
+      targetId !== dragged.manager_id &&
+      managerIds.has(targetId) &&
+      !draggedDescendants.has(targetId)
+    );
+  };
+
+  const handleDrop = async (targetId: string | null) => {
+    const person = dragged;
+    setDraggingId(null);
+    setDropTargetId(null);
+    if (!person || !canDropOn(targetId)) return;
+
+    const manager = people.find(other => other.id === targetId);
+    const { error } = await supabase.rpc('set_user_manager', { p_user_id: person.id, p_manager_id: targetId });
+
+    if (error) {
+      toast({ title: 'Update Failed', description: describeError(error), variant: 'destructive' });
+    } else {
+      toast({
+        title: 'Reporting Line Updated',
+        description: manager
+          ? `${fullName(person)} now reports to ${fullName(manager)}.`
+          : `${fullName(person)} no longer has a manager.`,
+      });
+    }
+    fetchChart();
+  };
+
+  const dropHandlers = (targetId: string | null) =>
+    canEdit && draggingId
+      ? {
+          onDragOver: (e: React.DragEvent) => {
+            if (!canDropOn(targetId)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTargetId(targetId ?? 'root');
+          },
+          onDragLeave: () => setDropTargetId(null),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            handleDrop(targetId);
+          },
+        }
+      : {};
+
+  const toggleCollapsed = (personId: string) => {
+    const next = new Set(collapsed);
+    if (next.has(personId)) next.delete(personId);
+    else next.add(personId);
+    setCollapsed(next);
+  };
+
+  const renderPerson = (person: Person) => {
+    const reports = reportsOf(person.id);
+    const absence = absences[person.id];
+    const isCollapsed = collapsed.has(person.id);
+
+    return (
+      <li key={person.id} className="space-y-2">
+        <div
+          draggable={canEdit}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggingId(person.id);
+          }}
+          onDragEnd={() => {
+            setDraggingId(null);
+            setDropTargetId(null);
+          }}
+          {...dropHandlers(person.id)}
+          className={cn(
+            'flex items-center gap-2 rounded-lg border bg-card p-3 transition-colors',
+            canEdit && 'cursor-grab',
+            draggingId === person.id && 'opacity-50',
+            dropTargetId === person.id && 'border-primary bg-primary/10',
+            draggingId && !canDropOn(person.id) && draggingId !== person.id && 'opacity-60'
+          )}
+        >
+          {reports.length > 0 ? (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => toggleCollapsed(person.id)}
+              aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </Button>
+          ) : (
+            <span className="w-6" />
+          )}
+          {canEdit && <GripVertical className="h-4 w-4 text-muted-foreground" />}
+          <div className="flex-1">
+            <div className="font-medium">{fullName(person)}</div>
+            <div className="text-xs text-muted-foreground">
+              {departments.find(department => department.id === person.department_id)?.name ?? 'No department'}
+              {reports.length > 0 && ` · ${reports.length} direct ${reports.length === 1 ? 'report' : 'reports'}`}
+            </div>
+          </div>
+          {absence && (
+            <Badge variant="secondary">
+              {leaveTypeName(leaveTypes, absence.leave_type)} until {format(parseISO(absence.end_date), 'MMM d')}
+            </Badge>
+          )}
+        </div>
+
+        {reports.length > 0 && !isCollapsed && (
+          <ul className="ml-6 space-y-2 border-l pl-4">{reports.map(renderPerson)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  const onLeaveCount = people.filter(person => absences[person.id]).length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Org Chart</h1>
+        <p className="text-muted-foreground">
+          {canEdit
+            ? 'Drag a person onto a manager to change who they report to.'
+            : 'Reporting lines across the organization.'}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization</CardTitle>
+          <CardDescription>
+            {people.length} active {people.length === 1 ? 'person' : 'people'}, {onLeaveCount} on leave today
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEdit && draggingId && (
+            <div
+              {...dropHandlers(null)}
+              className={cn(
+                'rounded-lg border border-dashed p-3 text-center text-sm text-muted-foreground',
+                dropTargetId === 'root' && 'border-primary bg-primary/10',
+                !canDropOn(null) && 'opacity-60'
+              )}
+            >
+              Drop here to remove the manager
+            </div>
+          )}
+
+          {people.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No one to show yet.</p>
+          ) : (
+            <ul className="space-y-2">{reportsOf(null).map(renderPerson)}</ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { leaveTypeName } from '@/lib/leave';
+import { describeError } from '@/lib/errors';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LeaveBalance } from '@/components/leave/LeaveBalanceCards';
+import { LeaveDecisionDialog } from '@/components/leave/LeaveDecisionDialog';
+import { useDepartments } from '@/hooks/use-departments';
+import { useLeaveTypes } from '@/hooks/use-leave-types';
+import { toast } from '@/hooks/use-toast';
+import { AlertCircle, Check, Users, X } from 'lucide-react';
+
+interface TeamMember {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: string | null;
+}
+
+interface TeamLeaveRequest {
+  id: string;
+  employee_id: string;
+  leave_type: string;
+  custom_reason: string | null;
+  description: string | null;
+  start_date: string;
+  end_date: string;
+  working_days: number;
+  status: string;
+  cancellation_requested_at: string | null;
+  cancellation_reason: string | null;
+}
+
+const balanceKey = (employeeId: string, year: number) => `${employeeId}:${year}`;
+const yearOf = (date: string) => Number(date.slice(0, 4));
+const overlaps = (a: { start_date: string; end_date: string }, b: { start_date: string; end_date: string }) =>
+  a.start_date <= b.end_date && b.start_date <= a.end_date;
+
+export default function TeamRequests() {
+  const { profile } = useAuth();
+  const leaveTypes = useLeaveTypes();
+  const departments = useDepartments();
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [requests, setRequests] = useState<TeamLeaveRequest[]>([]);
+  const [teamLeave, setTeamLeave] = useState<TeamLeaveRequest[]>([]);
+  const [balances, setBalances] = useState<Record<string, LeaveBalance[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [decisionTarget, setDecisionTarget] = useState<{ decision: 'approve' | 'reject'; ids: string[] } | null>(null);
+  const [departmentFilter, setDepartmentFilter] = useState<string>('all');
+
+  useEffect(() => {
+    if (profile) {
+      fetchQueue();
+    }
+  }, [profile]);
+
+  const fetchQueue = async () => {
+    try {
+      const { data: members } = await supabase
+        .from('profiles')
+        .select('id, first_name, last_name, department_id')
+        .eq('manager_id', profile.id);
+
+      const memberIds = (members || []).map(member => member.id);
+      setTeamMembers(members || []);
+
+      if (memberIds.length === 0) {
+        setRequests([]);
+        return;
+      }
+
+      const { data: queue } = await supabase
+        .from('leave_requests')
+        .select('*')
+        .in('employee_id', memberIds)
+        .or('status.eq.pending,and(status.eq.approved,cancellation_requested_at.not.is.null)')
+        .order('start_date', { ascending: true });
+
+      const items = queue || [];
+      setRequests(items);
+      setSelectedIds(prev => new Set(items.filter(req => prev.has(req.id)).map(req => req.id)));
+
+      if (items.length === 0) {
+        return;
+      }
+
+      // Approved leave of the whole team across the window the queue covers
+      const windowStart = items.reduce((min, req) => (req.start_date < min ? req.start_date : min), items[0].start_date);
+      const windowEnd = items.reduce((max, req) => (req.end_date > max ? req.end_date : max), items[0].end_date);
+      const { data: approved } = await supabase
+        .from('leave_requests')
+        .select('*')
+        .in('employee_id', memberIds)
+        .eq('status', 'approved')
+        .lte('start_date', windowEnd)
+        .gte('end_date', windowStart);
+      setTeamLeave(approved || []);
+
+      const balanceRequests = new Map<string, { employeeId: string; year: number }>();
+      items.forEach(req => {
+        const year = yearOf(req.start_date);
+        balanceRequests.set(balanceKey(req.employee_id, year), { employeeId: req.employee_id, year });
+      });
+      const results = await Promise.all(
+        Array.from(balanceRequests.entries()).map(async ([key, { employeeId, year }]) => {
+          const { data } = await supabase.rpc('get_leave_balances', { p_employee_id: employeeId, p_year: year });
+          return [key, data || []] as const;
+        })
+      );
+      setBalances(Object.fromEntries(results));
+    } catch (error) {
+      console.error('Error fetching team requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const memberName = (employeeId: string) => {
+    const member = teamMembers.find(m => m.id === employeeId);
+    return member ? `${member.first_name} ${member.last_name}` : 'Unknown';
+  };
+
+  const handleApprove = async (request: TeamLeaveRequest) => {
+    const { error } = await supabase.rpc('decide_leave_request', {
+      p_request_id: request.id,
+      p_approve: true,
+    });
+
+    if (error) {
+      toast({
+        title: 'Decision Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Request Approved',
+        description: `${memberName(request.employee_id)}'s ${leaveTypeName(leaveTypes, request.leave_type).toLowerCase()} request was approved.`,
+      });
+    }
+    fetchQueue();
+  };
+
+  // Used for rejections and bulk decisions; reports the outcome of every row
+  const handleDecisions = async (comment: string) => {
+    const { decision, ids } = decisionTarget;
+    const approve = decision === 'approve';
+    const { data, error } = await supabase.rpc('decide_leave_requests', {
+      p_request_ids: ids,
+      p_approve: approve,
+      p_comment: comment || null,
+    });
+
+    if (error) {
+      toast({
+        title: 'Decision Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const failures = (data || []).filter(result => !result.success);
+    const succeeded = (data || []).length - failures.length;
+    const verb = approve ? 'approved' : 'rejected';
+
+    if (failures.length === 0) {
+      toast({
+        title: approve ? 'Requests Approved' : 'Requests Rejected',
+        description: `${succeeded} ${succeeded === 1 ? 'request was' : 'requests were'} ${verb}.`,
+      });
+    } else {
+      toast({
+        title: `${succeeded} ${verb}, ${failures.length} failed`,
+        description: (
+          <ul className="mt-1 space-y-1">
+            {failures.map(failure => {
+              const request = requests.find(req => req.id === failure.request_id);
+              return (
+                <li key={failure.request_id}>
+                  {request ? `${memberName(request.employee_id)} (${request.start_date}): ` : ''}
+                  {describeError({ code: failure.error_code, message: failure.error_message })}
+                </li>
+              );
+            })}
+          </ul>
+        ),
+        variant: 'destructive',
+      });
+    }
+
+    setDecisionTarget(null);
+    fetchQueue();
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCancellationDecision = async (request: TeamLeaveRequest, confirm: boolean) => {
+    const { error } = await supabase.rpc('decide_leave_cancellation', {
+      p_request_id: request.id,
+      p_confirm: confirm,
+    });
+
+    if (error) {
+      toast({
+        title: 'Decision Failed',
+        description: describeError(error),
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: confirm ? 'Cancellation Confirmed' : 'Cancellation Declined',
+        description: confirm
+          ? `${memberName(request.employee_id)}'s leave was cancelled and the days returned to their balance.`
+          : `${memberName(request.employee_id)}'s leave remains approved.`,
+      });
+    }
+    fetchQueue();
+  };
+
+  const inDepartmentFilter = (employeeId: string) =>
+    departmentFilter === 'all' || teamMembers.find(m => m.id === employeeId)?.department_id === departmentFilter;
+  const teamDepartments = departments.filter(department => teamMembers.some(m => m.department_id === department.id));
+  const visibleRequests = requests.filter(req => inDepartmentFilter(req.employee_id));
+
+  const handleDepartmentFilter = (value: string) => {
+    setDepartmentFilter(value);
+    setSelectedIds(new Set());
+  };
+
+  const pendingIds = visibleRequests.filter(req => req.status === 'pending').map(req => req.id);
+  const allSelected = pendingIds.length > 0 && pendingIds.every(id => selectedIds.has(id));
+
+  if (loading) {
+    return <div className="flex items-center justify-center h-64">Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Team Requests</h1>
+          <p className="text-muted-foreground">Review leave requests from your direct reports.</p>
+        </div>
+        {teamDepartments.length > 1 && (
+          <Select value={departmentFilter} onValueChange={handleDepartmentFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Department" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All departments</SelectItem>
+              {teamDepartments.map((department) => (
+                <SelectItem key={department.id} value={department.id}>
+                  {department.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {visibleRequests.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center h-32 text-muted-foreground">
+            <div className="text-center">
+              <AlertCircle className="h-8 w-8 mx-auto mb-2" />
+              <p>Nothing waiting for your decision</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {pendingIds.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-background p-3">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? new Set(pendingIds) : new Set())}
+                />
+                {selectedIds.size > 0 ? `${selectedIds.size} selected` : 'Select all pending'}
+              </label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={selectedIds.size === 0}
+                  onClick={() => setDecisionTarget({ decision: 'approve', ids: Array.from(selectedIds) })}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Approve Selected
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={selectedIds.size === 0}
+                  onClick={() => setDecisionTarget({ decision: 'reject', ids: Array.from(selectedIds) })}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Reject Selected
+                </Button>
+              </div>
+            </div>
+          )}
+          {visibleRequests.map((request) => {
+            const isCancellation = request.status === 'approved';
+            const balance = balances[balanceKey(request.employee_id, yearOf(request.start_date))]
+              ?.find(b => b.leave_type === request.leave_type);
+            const teammatesOff = teamLeave.filter(
+              other =>
+                other.employee_id !== request.employee_id && inDepartmentFilter(other.employee_id) && overlaps(other, request)
+            );
+
+            return (
+              <Card key={request.id}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="flex items-start gap-3">
+                    {!isCancellation && (
+                      <Checkbox
+                        className="mt-1.5"
+                        checked={selectedIds.has(request.id)}
+                        onCheckedChange={(checked) => toggleSelected(request.id, checked === true)}
+                        aria-label={`Select request from ${memberName(request.employee_id)}`}
+                      />
+                    )}
+                    <div className="space-y-1">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        {memberName(request.employee_id)}
+                        <Badge variant={isCancellation ? 'outline' : 'secondary'}>
+                          {isCancellation ? 'Cancellation requested' : 'Pending'}
+                        </Badge>
+                      </CardTitle>
+                      <CardDescription>
+                        {leaveTypeName(leaveTypes, request.leave_type)}
+                        {request.custom_reason && ` (${request.custom_reason})`} · {request.start_date} to{' '}
+                        {request.end_date} · {request.working_days} working {request.working_days === 1 ? 'day' : 'days'}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {isCancellation ? (
+                      <>
+                        <Button size="sm" onClick={() => handleCancellationDecision(request, true)}>
+                          <Check className="mr-1 h-4 w-4" />
+                          Confirm Cancellation
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleCancellationDecision(request, false)}>
+                          Keep Leave
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button size="sm" onClick={() => handleApprove(request)}>
+                          <Check className="mr-1 h-4 w-4" />
+                          Approve
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setDecisionTarget({ decision: 'reject', ids: [request.id] })}>
+                          <X className="mr-1 h-4 w-4" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="grid gap-4 text-sm md:grid-cols-3">
+                  <div>
+                    <p className="text-muted-foreground">
+                      {isCancellation ? 'Cancellation reason' : 'Description'}
+                    </p>
+                    <p className="mt-1 whitespace-pre-wrap">
+                      {(isCancellation ? request.cancellation_reason : request.description) || '—'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Remaining balance</p>
+                    <p className="mt-1">
+                      {balance && balance.entitlement > 0
+                        ? `${balance.remaining} of ${balance.entitlement} days (including pending requests)`
+                        : 'Not quota-tracked'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="flex items-center gap-1 text-muted-foreground">
+                      <Users className="h-3 w-3" />
+                      Also off during these dates
+                    </p>
+                    {teammatesOff.length === 0 ? (
+                      <p className="mt-1">Nobody</p>
+                    ) : (
+                      <ul className="mt-1 space-y-1">
+                        {teammatesOff.map(other => (
+                          <li key={other.id}>
+                            {memberName(other.employee_id)}{' '}
+                            <span className="text-muted-foreground">
+                              ({other.start_date} to {other.end_date})
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <LeaveDecisionDialog
+        decision={decisionTarget?.decision ?? null}
+        count={decisionTarget?.ids.length}
+        onOpenChange={(open) => !open && setDecisionTarget(null)}
+        onConfirm={handleDecisions}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+-- Shared working-day calculation: weekdays between two dates, excluding holidays
+CREATE OR REPLACE FUNCTION public.count_working_days(p_start_date DATE, p_end_date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(p_start_date, p_end_date, INTERVAL '1 day') AS d(day)
+  WHERE EXTRACT(ISODOW FROM d.day) < 6
+    AND NOT EXISTS (
+      SELECT 1 FROM public.holidays h WHERE h.date = d.day::DATE
+    );
+$$;
+
+-- Store the duration on each request so balances and reports read one number
+ALTER TABLE public.leave_requests
+  ADD COLUMN working_days INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.set_leave_request_working_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.working_days = public.count_working_days(NEW.start_date, NEW.end_date);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leave_requests_working_days
+  BEFORE INSERT OR UPDATE OF start_date, end_date, working_days ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_leave_request_working_days();
+
+-- Keep stored durations in sync when the holiday calendar changes
+CREATE OR REPLACE FUNCTION public.refresh_working_days_for_holiday()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.leave_requests
+  SET working_days = public.count_working_days(start_date, end_date)
+  WHERE (TG_OP <> 'INSERT' AND OLD.date BETWEEN start_date AND end_date)
+     OR (TG_OP <> 'DELETE' AND NEW.date BETWEEN start_date AND end_date);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_working_days_on_holiday_change
+  AFTER INSERT OR UPDATE OF date OR DELETE ON public.holidays
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_working_days_for_holiday();
+
+-- Backfill existing requests
+UPDATE public.leave_requests
+SET working_days = public.count_working_days(start_date, end_date);
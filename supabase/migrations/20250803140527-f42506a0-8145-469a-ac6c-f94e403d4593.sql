@@ -0,0 +1,63 @@
+-- Per-employee, per-year, per-type leave balances derived from policies and requests
+CREATE OR REPLACE FUNCTION public.get_leave_balances(
+  p_employee_id UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER
+)
+RETURNS TABLE (
+  leave_type leave_type,
+  year INTEGER,
+  entitlement INTEGER,
+  taken INTEGER,
+  pending INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = p_employee_id AND p.manager_id = auth.uid()
+    )
+    AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Not allowed to view balances for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    -- Only the part of a request that falls inside the year counts against it
+    SELECT
+      lr.leave_type,
+      lr.status,
+      public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      ) AS days
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = p_employee_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+  )
+  SELECT
+    lp.leave_type,
+    p_year,
+    lp.annual_quota,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'approved'), 0)::INTEGER,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'pending'), 0)::INTEGER,
+    (lp.annual_quota - COALESCE(SUM(u.days), 0))::INTEGER
+  FROM public.leave_policies lp
+  LEFT JOIN usage u ON u.leave_type = lp.leave_type
+  GROUP BY lp.leave_type, lp.annual_quota
+  ORDER BY lp.leave_type;
+END;
+$$;
@@ -0,0 +1,90 @@
+-- Enforce leave_policies on every write to leave_requests, whatever the client.
+-- Errors use custom SQLSTATEs so the UI can map them to friendly messages:
+--   LV001  request exceeds the policy's max_consecutive_days
+--   LV002  request exceeds the remaining annual_quota for a year it touches
+-- An annual_quota of 0 means the leave type is not quota-tracked.
+CREATE OR REPLACE FUNCTION public.validate_leave_request_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.leave_policies%ROWTYPE;
+  v_year INTEGER;
+  v_year_start DATE;
+  v_year_end DATE;
+  v_requested INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Status transitions (e.g. approval) are not re-validated against the policy
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_date = OLD.start_date
+    AND NEW.end_date = OLD.end_date
+    AND NEW.leave_type = OLD.leave_type
+    AND OLD.status IN ('pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_policy
+  FROM public.leave_policies
+  WHERE leave_type = NEW.leave_type;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_policy.max_consecutive_days IS NOT NULL
+    AND NEW.working_days > v_policy.max_consecutive_days
+  THEN
+    RAISE EXCEPTION 'Leave request exceeds the maximum consecutive days for this leave type'
+      USING ERRCODE = 'LV001',
+            DETAIL = format('Requested %s working days; the limit is %s.',
+                            NEW.working_days, v_policy.max_consecutive_days);
+  END IF;
+
+  IF v_policy.annual_quota > 0 THEN
+    FOR v_year IN
+      SELECT generate_series(EXTRACT(YEAR FROM NEW.start_date)::INTEGER,
+                             EXTRACT(YEAR FROM NEW.end_date)::INTEGER)
+    LOOP
+      v_year_start := make_date(v_year, 1, 1);
+      v_year_end := make_date(v_year, 12, 31);
+      v_requested := public.count_working_days(GREATEST(NEW.start_date, v_year_start),
+                                               LEAST(NEW.end_date, v_year_end));
+
+      SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                    LEAST(lr.end_date, v_year_end))), 0)
+      INTO v_used
+      FROM public.leave_requests lr
+      WHERE lr.employee_id = NEW.employee_id
+        AND lr.leave_type = NEW.leave_type
+        AND lr.status IN ('pending', 'approved')
+        AND lr.id <> NEW.id
+        AND lr.start_date <= v_year_end
+        AND lr.end_date >= v_year_start;
+
+      IF v_used + v_requested > v_policy.annual_quota THEN
+        RAISE EXCEPTION 'Leave request exceeds the remaining annual quota for this leave type'
+          USING ERRCODE = 'LV002',
+                DETAIL = format('Requested %s working days in %s; %s of %s remaining.',
+                                v_requested, v_year,
+                                GREATEST(v_policy.annual_quota - v_used, 0),
+                                v_policy.annual_quota);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Trigger names fire alphabetically, so working_days is already set when this runs
+CREATE TRIGGER validate_leave_requests_policy
+  BEFORE INSERT OR UPDATE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_leave_request_policy();
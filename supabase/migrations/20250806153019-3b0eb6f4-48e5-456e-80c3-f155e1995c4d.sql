@@ -0,0 +1,36 @@
+-- Mark requests approved by policy rather than by a manager
+ALTER TABLE public.leave_requests
+  ADD COLUMN auto_approved BOOLEAN NOT NULL DEFAULT false;
+
+-- New requests always start from a server-decided status: approved straight away
+-- when the policy does not require approval, pending otherwise.
+CREATE OR REPLACE FUNCTION public.apply_leave_request_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.approved_by = NULL;
+  NEW.rejection_reason = NULL;
+
+  IF EXISTS (
+    SELECT 1 FROM public.leave_policies
+    WHERE leave_type = NEW.leave_type AND requires_approval = false
+  ) THEN
+    NEW.status = 'approved';
+    NEW.approved_at = now();
+    NEW.auto_approved = true;
+  ELSE
+    NEW.status = 'pending';
+    NEW.approved_at = NULL;
+    NEW.auto_approved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_leave_requests_initial_status
+  BEFORE INSERT ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.apply_leave_request_initial_status();
@@ -0,0 +1,51 @@
+-- Prevent an employee from holding two active requests over the same dates
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE public.leave_requests
+  ADD CONSTRAINT leave_requests_no_overlap
+  EXCLUDE USING gist (
+    employee_id WITH =,
+    daterange(start_date, end_date, '[]') WITH &&
+  )
+  WHERE (status IN ('pending', 'approved'));
+
+-- The constraint is the race-safe backstop; this check runs first so the client
+-- gets LV003 with the conflicting request instead of a bare constraint name.
+CREATE OR REPLACE FUNCTION public.check_leave_request_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict public.leave_requests%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_conflict
+  FROM public.leave_requests lr
+  WHERE lr.employee_id = NEW.employee_id
+    AND lr.id <> NEW.id
+    AND lr.status IN ('pending', 'approved')
+    AND daterange(lr.start_date, lr.end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+  ORDER BY lr.start_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Leave request overlaps an existing request'
+      USING ERRCODE = 'LV003',
+            DETAIL = format('Conflicts with your %s %s request from %s to %s.',
+                            v_conflict.status, replace(v_conflict.leave_type::TEXT, '_', ' '),
+                            v_conflict.start_date, v_conflict.end_date),
+            HINT = v_conflict.id::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leave_requests_overlap
+  BEFORE INSERT OR UPDATE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.check_leave_request_overlap();
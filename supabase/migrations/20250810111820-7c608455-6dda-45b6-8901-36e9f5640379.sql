@@ -0,0 +1,32 @@
+-- Security definer helpers so profile policies don't recurse through RLS
+CREATE OR REPLACE FUNCTION public.get_manager_id(user_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT manager_id FROM public.profiles WHERE id = user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_decided_leave_for(approver_id UUID, employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.leave_requests lr
+    WHERE lr.employee_id = has_decided_leave_for.employee_id
+      AND lr.approved_by = has_decided_leave_for.approver_id
+  );
+$$;
+
+-- Let employees see their manager and whoever decided on their requests
+CREATE POLICY "Employees can view their manager and approvers"
+  ON public.profiles FOR SELECT
+  USING (
+    id = public.get_manager_id(auth.uid()) OR
+    public.has_decided_leave_for(id, auth.uid())
+  );
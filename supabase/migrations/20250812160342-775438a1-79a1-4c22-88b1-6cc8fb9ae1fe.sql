@@ -0,0 +1,98 @@
+-- Cancellation flow: pending requests are withdrawn immediately, approved future
+-- requests need the manager to confirm. Errors:
+--   LV004  the leave has already started
+--   LV005  the request cannot be cancelled in its current state
+ALTER TABLE public.leave_requests
+  ADD COLUMN cancellation_requested_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancellation_reason TEXT;
+
+-- Employees may still edit pending requests, but not change their status
+DROP POLICY "Employees can update their pending leave requests" ON public.leave_requests;
+
+CREATE POLICY "Employees can update their pending leave requests"
+  ON public.leave_requests FOR UPDATE
+  USING (auth.uid() = employee_id AND status = 'pending')
+  WITH CHECK (auth.uid() = employee_id AND status = 'pending');
+
+-- Whether a user may decide on another employee's requests
+CREATE OR REPLACE FUNCTION public.can_manage_leave_for(manager_id UUID, employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.get_manager_id(employee_id) = manager_id
+    OR public.get_user_role(manager_id) = 'admin';
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_leave_request(p_request_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.employee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Leave request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status = 'pending' THEN
+    UPDATE public.leave_requests
+    SET status = 'cancelled', cancellation_reason = p_reason
+    WHERE id = p_request_id;
+  ELSIF v_request.status = 'approved' AND v_request.cancellation_requested_at IS NULL THEN
+    IF v_request.start_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Leave that has already started cannot be cancelled' USING ERRCODE = 'LV004';
+    END IF;
+
+    UPDATE public.leave_requests
+    SET cancellation_requested_at = now(), cancellation_reason = p_reason
+    WHERE id = p_request_id;
+  ELSE
+    RAISE EXCEPTION 'Leave request cannot be cancelled in its current state' USING ERRCODE = 'LV005';
+  END IF;
+END;
+$$;
+
+-- Manager decision on a pending cancellation; confirming frees the balance
+CREATE OR REPLACE FUNCTION public.decide_leave_cancellation(p_request_id UUID, p_confirm BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_leave_for(auth.uid(), v_request.employee_id) THEN
+    RAISE EXCEPTION 'Leave request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status <> 'approved' OR v_request.cancellation_requested_at IS NULL THEN
+    RAISE EXCEPTION 'Leave request has no pending cancellation' USING ERRCODE = 'LV005';
+  END IF;
+
+  IF p_confirm THEN
+    UPDATE public.leave_requests
+    SET status = 'cancelled'
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE public.leave_requests
+    SET cancellation_requested_at = NULL, cancellation_reason = NULL
+    WHERE id = p_request_id;
+  END IF;
+END;
+$$;
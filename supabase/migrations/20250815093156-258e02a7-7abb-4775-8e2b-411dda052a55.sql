@@ -0,0 +1,41 @@
+-- Manager decision on a pending leave request. Errors:
+--   LV006  the request is no longer pending
+--   LV007  a rejection needs a reason
+CREATE OR REPLACE FUNCTION public.decide_leave_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_rejection_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.leave_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.leave_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_leave_for(auth.uid(), v_request.employee_id) THEN
+    RAISE EXCEPTION 'Leave request not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Leave request is no longer pending' USING ERRCODE = 'LV006';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(trim(p_rejection_reason), '') = '' THEN
+    RAISE EXCEPTION 'A rejection reason is required' USING ERRCODE = 'LV007';
+  END IF;
+
+  UPDATE public.leave_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END::leave_status,
+      approved_by = auth.uid(),
+      approved_at = now(),
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE trim(p_rejection_reason) END
+  WHERE id = p_request_id;
+END;
+$$;
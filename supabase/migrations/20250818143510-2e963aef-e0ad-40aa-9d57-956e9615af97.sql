@@ -0,0 +1,53 @@
+-- Optional note from the approver, shared with the employee
+ALTER TABLE public.leave_requests
+  ADD COLUMN approver_comment TEXT;
+
+-- Bulk approve/reject in one transaction. Each row is decided in its own
+-- subtransaction so one failure (e.g. no longer pending) doesn't roll back the rest.
+CREATE OR REPLACE FUNCTION public.decide_leave_requests(
+  p_request_ids UUID[],
+  p_approve BOOLEAN,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id UUID,
+  success BOOLEAN,
+  error_code TEXT,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_id UUID;
+  v_code TEXT;
+  v_message TEXT;
+BEGIN
+  FOREACH v_id IN ARRAY p_request_ids
+  LOOP
+    BEGIN
+      PERFORM public.decide_leave_request(v_id, p_approve, p_comment);
+
+      IF p_approve AND COALESCE(trim(p_comment), '') <> '' THEN
+        UPDATE public.leave_requests
+        SET approver_comment = trim(p_comment)
+        WHERE id = v_id;
+      END IF;
+
+      request_id := v_id;
+      success := true;
+      error_code := NULL;
+      error_message := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      GET STACKED DIAGNOSTICS v_code = RETURNED_SQLSTATE, v_message = MESSAGE_TEXT;
+      request_id := v_id;
+      success := false;
+      error_code := v_code;
+      error_message := v_message;
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- Signup metadata is client-controlled, so every new account starts as an employee
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, first_name, last_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'first_name', ''),
+    COALESCE(NEW.raw_user_meta_data ->> 'last_name', ''),
+    'employee'
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Admin-only role changes
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id UUID, p_role user_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change user roles' USING ERRCODE = '42501';
+  END IF;
+
+  -- Guard against an admin locking everyone out by demoting themselves
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot change their own role' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles SET role = p_role WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id AND role <> p_role;
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (p_user_id, p_role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
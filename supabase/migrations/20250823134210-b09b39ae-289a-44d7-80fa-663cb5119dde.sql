@@ -0,0 +1,64 @@
+-- Self-service profile edits are limited to names; role, manager and
+-- department are managed by admins through the RPCs below.
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (first_name, last_name) ON public.profiles TO authenticated;
+
+ALTER POLICY "Users can update their own profile"
+  ON public.profiles
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- LV008  the new manager would create a reporting cycle
+CREATE OR REPLACE FUNCTION public.set_user_manager(p_user_id UUID, p_manager_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change reporting lines' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_manager_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT p_manager_id AS id
+      UNION
+      SELECT p.manager_id
+      FROM public.profiles p
+      JOIN chain c ON p.id = c.id
+      WHERE p.manager_id IS NOT NULL
+    )
+    SELECT 1 FROM chain WHERE id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'This manager would create a reporting cycle' USING ERRCODE = 'LV008';
+  END IF;
+
+  UPDATE public.profiles SET manager_id = p_manager_id WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_department(p_user_id UUID, p_department TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change departments' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET department = NULLIF(trim(p_department), '')
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
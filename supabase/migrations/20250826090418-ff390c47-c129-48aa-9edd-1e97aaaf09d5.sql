@@ -0,0 +1,149 @@
+-- user_roles becomes the single source of truth for authorization. Users can
+-- hold several roles (e.g. a manager who is also an admin); profiles.role goes away.
+
+-- Bring user_roles in line with profiles before dropping the column
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, role FROM public.profiles
+ON CONFLICT (user_id, role) DO NOTHING;
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'employee' FROM public.profiles
+ON CONFLICT (user_id, role) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_role(user_id UUID, role user_role)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = has_role.user_id AND ur.role = has_role.role
+  );
+$$;
+
+-- Highest role held; enum order is employee < manager < admin
+CREATE OR REPLACE FUNCTION public.get_user_role(user_id UUID)
+RETURNS user_role
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT ur.role FROM public.user_roles ur
+  WHERE ur.user_id = get_user_role.user_id
+  ORDER BY ur.role DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, first_name, last_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'first_name', ''),
+    COALESCE(NEW.raw_user_meta_data ->> 'last_name', '')
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.profiles DROP COLUMN role;
+
+CREATE OR REPLACE FUNCTION public.can_manage_leave_for(manager_id UUID, employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.get_manager_id(employee_id) = manager_id
+    OR public.has_role(manager_id, 'admin');
+$$;
+
+-- Role assignment replaces the single-role setter. Everyone keeps 'employee'.
+DROP FUNCTION public.set_user_role(UUID, user_role);
+
+CREATE OR REPLACE FUNCTION public.set_user_roles(p_user_id UUID, p_roles user_role[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_roles user_role[] := array_append(p_roles, 'employee');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change user roles' USING ERRCODE = '42501';
+  END IF;
+
+  -- Guard against an admin locking everyone out by demoting themselves
+  IF p_user_id = auth.uid() AND NOT 'admin' = ANY (v_roles) THEN
+    RAISE EXCEPTION 'Admins cannot remove their own admin role' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.user_roles
+  WHERE user_id = p_user_id AND NOT role = ANY (v_roles);
+
+  INSERT INTO public.user_roles (user_id, role)
+  SELECT p_user_id, r FROM unnest(v_roles) AS r
+  ON CONFLICT (user_id, role) DO NOTHING;
+END;
+$$;
+
+-- Re-point every policy at has_role()
+DROP POLICY "Managers can view their team profiles" ON public.profiles;
+CREATE POLICY "Managers can view their team profiles"
+  ON public.profiles FOR SELECT
+  USING (
+    auth.uid() = id OR
+    manager_id = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+DROP POLICY "Admins can manage all roles" ON public.user_roles;
+CREATE POLICY "Admins can manage all roles"
+  ON public.user_roles FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY "Admins can manage leave policies" ON public.leave_policies;
+CREATE POLICY "Admins can manage leave policies"
+  ON public.leave_policies FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY "Managers can view team leave requests" ON public.leave_requests;
+CREATE POLICY "Managers can view team leave requests"
+  ON public.leave_requests FOR SELECT
+  USING (
+    auth.uid() = employee_id OR
+    public.get_manager_id(employee_id) = auth.uid() OR
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'manager')
+  );
+
+-- Decisions and cancellations go through decide_leave_request and
+-- decide_leave_cancellation, which enforce the status transitions. A direct
+-- UPDATE policy would let any manager bypass them, e.g. to approve their own
+-- request or revive a cancelled one.
+DROP POLICY "Managers can approve/reject leave requests" ON public.leave_requests;
+
+DROP POLICY "Admins can manage holidays" ON public.holidays;
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
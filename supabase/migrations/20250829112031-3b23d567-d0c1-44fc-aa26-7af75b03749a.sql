@@ -0,0 +1,71 @@
+-- Account activation, managed by admins
+ALTER TABLE public.profiles
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Deactivated users are also banned in auth so they can't sign in
+CREATE OR REPLACE FUNCTION public.set_user_active(p_user_id UUID, p_active BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can activate or deactivate users' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot deactivate themselves' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles SET is_active = p_active WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE 'infinity'::TIMESTAMPTZ END
+  WHERE id = p_user_id;
+END;
+$$;
+
+-- Managers must hold the manager role. Errors:
+--   LV008  the new manager would create a reporting cycle
+--   LV009  the new manager does not hold the manager role
+CREATE OR REPLACE FUNCTION public.set_user_manager(p_user_id UUID, p_manager_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change reporting lines' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_manager_id IS NOT NULL AND NOT public.has_role(p_manager_id, 'manager') THEN
+    RAISE EXCEPTION 'The selected user is not a manager' USING ERRCODE = 'LV009';
+  END IF;
+
+  IF p_manager_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT p_manager_id AS id
+      UNION
+      SELECT p.manager_id
+      FROM public.profiles p
+      JOIN chain c ON p.id = c.id
+      WHERE p.manager_id IS NOT NULL
+    )
+    SELECT 1 FROM chain WHERE id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'This manager would create a reporting cycle' USING ERRCODE = 'LV008';
+  END IF;
+
+  UPDATE public.profiles SET manager_id = p_manager_id WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
@@ -0,0 +1,117 @@
+-- Organization-wide settings (single row)
+CREATE TABLE public.org_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  allow_open_signup BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.org_settings DEFAULT VALUES;
+
+ALTER TABLE public.org_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_org_settings_updated_at
+  BEFORE UPDATE ON public.org_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The sign-up screen needs this before anyone is signed in
+CREATE POLICY "Anyone can view org settings"
+  ON public.org_settings FOR SELECT
+  TO anon, authenticated USING (true);
+
+CREATE POLICY "Admins can update org settings"
+  ON public.org_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Invitations with pre-assigned role, department and manager
+CREATE TABLE public.invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  role user_role NOT NULL DEFAULT 'employee',
+  department TEXT,
+  manager_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one open invitation per email
+CREATE UNIQUE INDEX invitations_open_email_key
+  ON public.invitations (lower(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage invitations"
+  ON public.invitations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Lets the sign-up screen prefill the invited email from a token
+CREATE OR REPLACE FUNCTION public.get_invitation(p_token TEXT)
+RETURNS TABLE (email TEXT, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.email, i.expires_at
+  FROM public.invitations i
+  WHERE i.token = p_token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > now();
+$$;
+
+-- New users consume their invitation; without one, signup must be open.
+--   LV010  signup requires a valid invitation
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data ->> 'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL AND NOT (SELECT allow_open_signup FROM public.org_settings) THEN
+    RAISE EXCEPTION 'Signup requires a valid invitation' USING ERRCODE = 'LV010';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, department, manager_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'first_name', ''),
+    COALESCE(NEW.raw_user_meta_data ->> 'last_name', ''),
+    v_invite.department,
+    v_invite.manager_id
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  IF v_invite.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, v_invite.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = v_invite.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,373 @@
+-- Departments replace the free-text profiles.department column
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  head_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX departments_name_key ON public.departments (lower(name));
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Authenticated users can view departments"
+  ON public.departments FOR SELECT
+  TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage departments"
+  ON public.departments FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Rejects a parent that is the department itself or one of its sub-departments.
+--   LV011  department hierarchy cycle
+CREATE OR REPLACE FUNCTION public.validate_departments_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT NEW.parent_id AS id
+      UNION
+      SELECT d.parent_id
+      FROM public.departments d
+      JOIN chain c ON d.id = c.id
+      WHERE d.parent_id IS NOT NULL
+    )
+    SELECT 1 FROM chain WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'This parent would create a department cycle' USING ERRCODE = 'LV011';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_departments_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_departments_parent();
+
+-- One department per spelling that differs only in case or spacing, named
+-- after its most common spelling
+INSERT INTO public.departments (name)
+SELECT DISTINCT ON (lower(spellings.name)) spellings.name
+FROM (
+  SELECT regexp_replace(trim(d.department), '\s+', ' ', 'g') AS name, count(*) AS uses
+  FROM (
+    SELECT department FROM public.profiles
+    UNION ALL
+    SELECT department FROM public.invitations
+  ) d
+  WHERE trim(d.department) <> ''
+  GROUP BY 1
+) spellings
+ORDER BY lower(spellings.name), spellings.uses DESC, spellings.name;
+
+ALTER TABLE public.profiles
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invitations
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+UPDATE public.profiles p
+SET department_id = d.id
+FROM public.departments d
+WHERE lower(d.name) = lower(regexp_replace(trim(p.department), '\s+', ' ', 'g'));
+
+UPDATE public.invitations i
+SET department_id = d.id
+FROM public.departments d
+WHERE lower(d.name) = lower(regexp_replace(trim(i.department), '\s+', ' ', 'g'));
+
+ALTER TABLE public.profiles DROP COLUMN department;
+ALTER TABLE public.invitations DROP COLUMN department;
+
+CREATE INDEX profiles_department_id_idx ON public.profiles (department_id);
+
+DROP FUNCTION public.set_user_department(UUID, TEXT);
+
+CREATE FUNCTION public.set_user_department(p_user_id UUID, p_department_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change departments' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET department_id = p_department_id
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Moves everyone in one department into another and deletes the first.
+-- Used to clean up duplicates the normalization above could not detect.
+CREATE OR REPLACE FUNCTION public.merge_departments(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge departments' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A department cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.departments WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.profiles SET department_id = p_target_id WHERE department_id = p_source_id;
+  UPDATE public.invitations SET department_id = p_target_id WHERE department_id = p_source_id;
+  UPDATE public.departments SET parent_id = NULL WHERE id = p_target_id AND parent_id = p_source_id;
+  UPDATE public.departments SET parent_id = p_target_id WHERE parent_id = p_source_id;
+
+  DELETE FROM public.departments WHERE id = p_source_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Invitations now carry a department id
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data ->> 'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL AND NOT (SELECT allow_open_signup FROM public.org_settings) THEN
+    RAISE EXCEPTION 'Signup requires a valid invitation' USING ERRCODE = 'LV010';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, department_id, manager_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'first_name', ''), v_invite.first_name, ''),
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'last_name', ''), v_invite.last_name, ''),
+    v_invite.department_id,
+    v_invite.manager_id
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  IF v_invite.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, v_invite.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = v_invite.id;
+  END IF;
+
+  -- People already signed up who were waiting for this manager
+  UPDATE public.profiles p
+  SET manager_id = NEW.id
+  FROM public.pending_reporting_lines l
+  WHERE lower(p.email) = l.employee_email
+    AND l.manager_email = lower(NEW.email);
+
+  -- This user's own manager, if they signed up first
+  UPDATE public.profiles p
+  SET manager_id = m.id
+  FROM public.pending_reporting_lines l
+  JOIN public.profiles m ON lower(m.email) = l.manager_email
+  WHERE p.id = NEW.id
+    AND l.employee_email = lower(NEW.email);
+
+  DELETE FROM public.pending_reporting_lines l
+  WHERE EXISTS (
+    SELECT 1 FROM public.profiles p
+    JOIN public.profiles m ON m.id = p.manager_id
+    WHERE lower(p.email) = l.employee_email
+      AND lower(m.email) = l.manager_email
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Validates and applies a bulk user import in one transaction.
+-- Every row is checked against the file and the existing organization; if any
+-- row fails, or p_apply is false, nothing is written and the per-row results
+-- are returned as a preview.
+--
+-- Existing users (matched by email) get the file's department and manager and
+-- the file's role is added to their roles. Departments are matched by name and
+-- must already exist. Everyone else gets an invitation.
+-- A manager_email may point to another row of the same file; if that manager
+-- has no account yet, the line is kept in pending_reporting_lines.
+CREATE OR REPLACE FUNCTION public.import_users(p_rows JSONB, p_apply BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  row_number INTEGER,
+  email TEXT,
+  action TEXT,
+  error_code TEXT,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import users' USING ERRCODE = '42501';
+  END IF;
+
+  CREATE TEMP TABLE import_rows ON COMMIT DROP AS
+  SELECT
+    r.ordinality::INTEGER AS row_number,
+    lower(trim(r.value ->> 'email')) AS email,
+    trim(COALESCE(r.value ->> 'first_name', '')) AS first_name,
+    trim(COALESCE(r.value ->> 'last_name', '')) AS last_name,
+    NULLIF(trim(r.value ->> 'department'), '') AS department,
+    d.id AS department_id,
+    NULLIF(lower(trim(r.value ->> 'manager_email')), '') AS manager_email,
+    COALESCE(NULLIF(lower(trim(r.value ->> 'role')), ''), 'employee') AS role,
+    p.id AS user_id,
+    CASE WHEN p.id IS NULL THEN 'invite' ELSE 'update' END AS action,
+    NULL::TEXT AS error_code,
+    NULL::TEXT AS error_message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality)
+  LEFT JOIN public.profiles p ON lower(p.email) = lower(trim(r.value ->> 'email'))
+  LEFT JOIN public.departments d ON lower(d.name) = lower(trim(r.value ->> 'department'));
+
+  -- Checks run in order; each row keeps the first error it hits
+  UPDATE import_rows i SET error_code = '22023', error_message = 'Email address is missing or invalid'
+  WHERE i.email IS NULL OR i.email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$';
+
+  UPDATE import_rows i SET error_code = '22023', error_message = 'First and last name are required'
+  WHERE i.error_code IS NULL AND (i.first_name = '' OR i.last_name = '');
+
+  UPDATE import_rows i SET error_code = '22023', error_message = 'Role must be employee, manager or admin'
+  WHERE i.error_code IS NULL AND i.role NOT IN ('employee', 'manager', 'admin');
+
+  UPDATE import_rows i SET error_code = 'P0002', error_message = 'Department does not exist'
+  WHERE i.error_code IS NULL AND i.department IS NOT NULL AND i.department_id IS NULL;
+
+  UPDATE import_rows i SET error_code = '23505', error_message = 'Email appears more than once in the file'
+  WHERE i.error_code IS NULL
+    AND (SELECT count(*) FROM import_rows d WHERE d.email = i.email) > 1;
+
+  UPDATE import_rows i SET error_code = 'LV008', error_message = 'An employee cannot be their own manager'
+  WHERE i.error_code IS NULL AND i.manager_email = i.email;
+
+  UPDATE import_rows i SET error_code = 'P0002', error_message = 'Manager is not in the file or the organization'
+  WHERE i.error_code IS NULL
+    AND i.manager_email IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM import_rows m WHERE m.email = i.manager_email)
+    AND NOT EXISTS (SELECT 1 FROM public.profiles m WHERE lower(m.email) = i.manager_email);
+
+  -- A manager must hold the manager role, either already or through this file
+  UPDATE import_rows i SET error_code = 'LV009', error_message = 'Manager does not have the manager role'
+  WHERE i.error_code IS NULL
+    AND i.manager_email IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM import_rows m WHERE m.email = i.manager_email AND m.role = 'manager')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles m
+      WHERE lower(m.email) = i.manager_email AND public.has_role(m.id, 'manager')
+    );
+
+  -- Walk up the reporting lines as they would be after the import
+  WITH RECURSIVE lines AS (
+    SELECT i.email, i.manager_email FROM import_rows i
+    UNION ALL
+    SELECT lower(p.email), lower(m.email)
+    FROM public.profiles p
+    JOIN public.profiles m ON m.id = p.manager_id
+    WHERE NOT EXISTS (SELECT 1 FROM import_rows i WHERE i.email = lower(p.email))
+  ),
+  chain (start_email, email) AS (
+    SELECT i.email, i.manager_email FROM import_rows i WHERE i.manager_email IS NOT NULL
+    UNION
+    SELECT c.start_email, l.manager_email
+    FROM chain c
+    JOIN lines l ON l.email = c.email
+    WHERE l.manager_email IS NOT NULL
+  )
+  UPDATE import_rows i SET error_code = 'LV008', error_message = 'This manager would create a reporting cycle'
+  WHERE i.error_code IS NULL
+    AND EXISTS (SELECT 1 FROM chain c WHERE c.start_email = i.email AND c.email = i.email);
+
+  IF p_apply AND NOT EXISTS (SELECT 1 FROM import_rows i WHERE i.error_code IS NOT NULL) THEN
+    -- Existing users: the file is authoritative for department and manager
+    UPDATE public.profiles p
+    SET department_id = i.department_id,
+        manager_id = m.id
+    FROM import_rows i
+    LEFT JOIN public.profiles m ON lower(m.email) = i.manager_email
+    WHERE p.id = i.user_id;
+
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT i.user_id, i.role::user_role
+    FROM import_rows i
+    WHERE i.user_id IS NOT NULL
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    -- New users: replace any open invitation with one from this import
+    UPDATE public.invitations v
+    SET revoked_at = now()
+    FROM import_rows i
+    WHERE i.user_id IS NULL
+      AND lower(v.email) = i.email
+      AND v.accepted_at IS NULL
+      AND v.revoked_at IS NULL;
+
+    INSERT INTO public.invitations (email, first_name, last_name, role, department_id, manager_id)
+    SELECT i.email, i.first_name, i.last_name, i.role::user_role, i.department_id, m.id
+    FROM import_rows i
+    LEFT JOIN public.profiles m ON lower(m.email) = i.manager_email
+    WHERE i.user_id IS NULL;
+
+    DELETE FROM public.pending_reporting_lines l
+    USING import_rows i
+    WHERE l.employee_email = i.email;
+
+    INSERT INTO public.pending_reporting_lines (employee_email, manager_email)
+    SELECT i.email, i.manager_email
+    FROM import_rows i
+    WHERE i.manager_email IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.profiles m WHERE lower(m.email) = i.manager_email);
+  END IF;
+
+  RETURN QUERY
+  SELECT i.row_number, i.email, i.action, i.error_code, i.error_message
+  FROM import_rows i
+  ORDER BY i.row_number;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Policies are now edited from the admin UI, so guard against nonsense values
+ALTER TABLE public.leave_policies
+  ADD CONSTRAINT leave_policies_annual_quota_check
+    CHECK (annual_quota BETWEEN 0 AND 366),
+  ADD CONSTRAINT leave_policies_max_consecutive_days_check
+    CHECK (max_consecutive_days IS NULL OR max_consecutive_days BETWEEN 1 AND 366);
+
+-- What a policy change would do to this year's balances, for the editor's
+-- confirmation step. Nothing is changed.
+CREATE OR REPLACE FUNCTION public.preview_leave_policy_change(
+  p_leave_type leave_type,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER
+)
+RETURNS TABLE (
+  employees_affected INTEGER,
+  employees_over_quota INTEGER,
+  pending_over_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := date_trunc('year', CURRENT_DATE)::DATE;
+  v_year_end DATE := (date_trunc('year', CURRENT_DATE) + INTERVAL '1 year - 1 day')::DATE;
+  v_current_quota INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview policy changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT lp.annual_quota INTO v_current_quota
+  FROM public.leave_policies lp
+  WHERE lp.leave_type = p_leave_type;
+
+  RETURN QUERY
+  WITH usage AS (
+    SELECT
+      lr.employee_id,
+      SUM(public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      )) AS days
+    FROM public.leave_requests lr
+    WHERE lr.leave_type = p_leave_type
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+    GROUP BY lr.employee_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE v_current_quota IS DISTINCT FROM p_annual_quota))::INTEGER,
+    (count(*) FILTER (WHERE p_annual_quota > 0 AND COALESCE(u.days, 0) > p_annual_quota))::INTEGER,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.leave_requests lr
+      WHERE lr.leave_type = p_leave_type
+        AND lr.status = 'pending'
+        AND p_max_consecutive_days IS NOT NULL
+        AND lr.working_days > p_max_consecutive_days
+    )
+  FROM public.profiles p
+  LEFT JOIN usage u ON u.employee_id = p.id
+  WHERE p.is_active;
+END;
+$$;
@@ -0,0 +1,328 @@
+-- Versioned leave policies. Each row is in force from effective_from through
+-- effective_to (inclusive; NULL means open-ended). Rows are never overwritten:
+-- set_leave_policy() closes the version in force and adds a new one, so past
+-- balances can always be explained by the version that applied at the time.
+ALTER TABLE public.leave_policies
+  ADD COLUMN effective_from DATE,
+  ADD COLUMN effective_to DATE,
+  ADD COLUMN changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Existing policies have applied since the year of the first leave anyone took
+UPDATE public.leave_policies
+SET effective_from = date_trunc(
+  'year',
+  LEAST(created_at::DATE, COALESCE((SELECT min(start_date) FROM public.leave_requests), created_at::DATE))
+)::DATE;
+
+-- A version replaced before it took effect ends the day before it starts
+ALTER TABLE public.leave_policies
+  ALTER COLUMN effective_from SET NOT NULL,
+  ALTER COLUMN effective_from SET DEFAULT CURRENT_DATE,
+  ADD CONSTRAINT leave_policies_effective_range_check
+    CHECK (effective_to IS NULL OR effective_to >= effective_from - 1);
+
+CREATE INDEX leave_policies_leave_type_effective_idx
+  ON public.leave_policies (leave_type, effective_from);
+
+-- History is append-only; admins change policies through set_leave_policy()
+DROP POLICY "Admins can manage leave policies" ON public.leave_policies;
+
+-- The policy version in force for a leave type on a date (NULL if none)
+CREATE OR REPLACE FUNCTION public.get_leave_policy(p_leave_type leave_type, p_date DATE)
+RETURNS public.leave_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.leave_policies
+  WHERE leave_type = p_leave_type
+    AND effective_from <= p_date
+    AND (effective_to IS NULL OR effective_to >= p_date)
+  ORDER BY effective_from DESC
+  LIMIT 1;
+$$;
+
+-- Adds a policy version in force from p_effective_from onwards. The version in
+-- force the day before is closed, and versions that would have started on or
+-- after that date are superseded before they take effect.
+CREATE OR REPLACE FUNCTION public.set_leave_policy(
+  p_leave_type leave_type,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_requires_approval BOOLEAN,
+  p_effective_from DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change leave policies' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM public.leave_policies WHERE leave_type = p_leave_type FOR UPDATE;
+
+  UPDATE public.leave_policies
+  SET effective_to = effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND effective_from >= p_effective_from
+    AND (effective_to IS NULL OR effective_to >= effective_from);
+
+  UPDATE public.leave_policies
+  SET effective_to = p_effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND effective_from < p_effective_from
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO public.leave_policies (
+    leave_type, annual_quota, max_consecutive_days, requires_approval, effective_from, changed_by
+  )
+  VALUES (
+    p_leave_type, p_annual_quota, p_max_consecutive_days, p_requires_approval, p_effective_from, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Same as before, but each check uses the version in force on the request's dates
+CREATE OR REPLACE FUNCTION public.validate_leave_request_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.leave_policies%ROWTYPE;
+  v_year INTEGER;
+  v_year_start DATE;
+  v_year_end DATE;
+  v_requested INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Status transitions (e.g. approval) are not re-validated against the policy
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_date = OLD.start_date
+    AND NEW.end_date = OLD.end_date
+    AND NEW.leave_type = OLD.leave_type
+    AND OLD.status IN ('pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.get_leave_policy(NEW.leave_type, NEW.start_date);
+
+  IF v_policy.max_consecutive_days IS NOT NULL
+    AND NEW.working_days > v_policy.max_consecutive_days
+  THEN
+    RAISE EXCEPTION 'Leave request exceeds the maximum consecutive days for this leave type'
+      USING ERRCODE = 'LV001',
+            DETAIL = format('Requested %s working days; the limit is %s.',
+                            NEW.working_days, v_policy.max_consecutive_days);
+  END IF;
+
+  FOR v_year IN
+    SELECT generate_series(EXTRACT(YEAR FROM NEW.start_date)::INTEGER,
+                           EXTRACT(YEAR FROM NEW.end_date)::INTEGER)
+  LOOP
+    v_year_start := make_date(v_year, 1, 1);
+    v_year_end := make_date(v_year, 12, 31);
+
+    -- The quota in force where the request enters this year
+    v_policy := public.get_leave_policy(NEW.leave_type, GREATEST(NEW.start_date, v_year_start));
+    CONTINUE WHEN v_policy.id IS NULL OR v_policy.annual_quota = 0;
+
+    v_requested := public.count_working_days(GREATEST(NEW.start_date, v_year_start),
+                                             LEAST(NEW.end_date, v_year_end));
+
+    SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                  LEAST(lr.end_date, v_year_end))), 0)
+    INTO v_used
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = NEW.employee_id
+      AND lr.leave_type = NEW.leave_type
+      AND lr.status IN ('pending', 'approved')
+      AND lr.id <> NEW.id
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start;
+
+    IF v_used + v_requested > v_policy.annual_quota THEN
+      RAISE EXCEPTION 'Leave request exceeds the remaining annual quota for this leave type'
+        USING ERRCODE = 'LV002',
+              DETAIL = format('Requested %s working days in %s; %s of %s remaining.',
+                              v_requested, v_year,
+                              GREATEST(v_policy.annual_quota - v_used, 0),
+                              v_policy.annual_quota);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_leave_request_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.approved_by = NULL;
+  NEW.rejection_reason = NULL;
+
+  IF (public.get_leave_policy(NEW.leave_type, NEW.start_date)).requires_approval = false THEN
+    NEW.status = 'approved';
+    NEW.approved_at = now();
+    NEW.auto_approved = true;
+  ELSE
+    NEW.status = 'pending';
+    NEW.approved_at = NULL;
+    NEW.auto_approved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Entitlements come from the versions in force today, or on the nearest day of
+-- the year for past and future years
+CREATE OR REPLACE FUNCTION public.get_leave_balances(
+  p_employee_id UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER
+)
+RETURNS TABLE (
+  leave_type leave_type,
+  year INTEGER,
+  entitlement INTEGER,
+  taken INTEGER,
+  pending INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+  v_as_of DATE := LEAST(GREATEST(CURRENT_DATE, make_date(p_year, 1, 1)), make_date(p_year, 12, 31));
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = p_employee_id AND p.manager_id = auth.uid()
+    )
+    AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Not allowed to view balances for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    -- Only the part of a request that falls inside the year counts against it
+    SELECT
+      lr.leave_type,
+      lr.status,
+      public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      ) AS days
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = p_employee_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+  )
+  SELECT
+    lp.leave_type,
+    p_year,
+    lp.annual_quota,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'approved'), 0)::INTEGER,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'pending'), 0)::INTEGER,
+    (lp.annual_quota - COALESCE(SUM(u.days), 0))::INTEGER
+  FROM public.leave_policies lp
+  LEFT JOIN usage u ON u.leave_type = lp.leave_type
+  WHERE lp.effective_from <= v_as_of
+    AND (lp.effective_to IS NULL OR lp.effective_to >= v_as_of)
+  GROUP BY lp.leave_type, lp.annual_quota
+  ORDER BY lp.leave_type;
+END;
+$$;
+
+-- Now previews a version starting on p_effective_from against the one it replaces
+DROP FUNCTION public.preview_leave_policy_change(leave_type, INTEGER, INTEGER);
+
+CREATE FUNCTION public.preview_leave_policy_change(
+  p_leave_type leave_type,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_effective_from DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  employees_affected INTEGER,
+  employees_over_quota INTEGER,
+  pending_over_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := date_trunc('year', p_effective_from)::DATE;
+  v_year_end DATE := (date_trunc('year', p_effective_from) + INTERVAL '1 year - 1 day')::DATE;
+  v_current_quota INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview policy changes' USING ERRCODE = '42501';
+  END IF;
+
+  v_current_quota := (public.get_leave_policy(p_leave_type, p_effective_from)).annual_quota;
+
+  RETURN QUERY
+  WITH usage AS (
+    SELECT
+      lr.employee_id,
+      SUM(public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      )) AS days
+    FROM public.leave_requests lr
+    WHERE lr.leave_type = p_leave_type
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+    GROUP BY lr.employee_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE v_current_quota IS DISTINCT FROM p_annual_quota))::INTEGER,
+    (count(*) FILTER (WHERE p_annual_quota > 0 AND COALESCE(u.days, 0) > p_annual_quota))::INTEGER,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.leave_requests lr
+      WHERE lr.leave_type = p_leave_type
+        AND lr.status = 'pending'
+        AND lr.start_date >= p_effective_from
+        AND p_max_consecutive_days IS NOT NULL
+        AND lr.working_days > p_max_consecutive_days
+    )
+  FROM public.profiles p
+  LEFT JOIN usage u ON u.employee_id = p.id
+  WHERE p.is_active;
+END;
+$$;
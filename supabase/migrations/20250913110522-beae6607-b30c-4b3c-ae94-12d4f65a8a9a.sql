@@ -0,0 +1,443 @@
+-- Office locations, so policies can differ by country or site
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX locations_name_key ON public.locations (lower(name));
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view locations"
+  ON public.locations FOR SELECT
+  TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage locations"
+  ON public.locations FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.profiles
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+CREATE INDEX profiles_location_id_idx ON public.profiles (location_id);
+
+CREATE OR REPLACE FUNCTION public.set_user_location(p_user_id UUID, p_location_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change locations' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET location_id = p_location_id
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- A policy version applies to everyone (no scope) or to one department,
+-- location or employee. Versions are kept per leave type and scope.
+ALTER TABLE public.leave_policies
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+  ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  ADD COLUMN employee_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ADD CONSTRAINT leave_policies_single_scope_check
+    CHECK (num_nonnulls(department_id, location_id, employee_id) <= 1);
+
+-- Lower wins: employee > department > location > global
+CREATE OR REPLACE FUNCTION public.leave_policy_precedence(
+  p_employee_id UUID,
+  p_department_id UUID,
+  p_location_id UUID
+)
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_employee_id IS NOT NULL THEN 1
+    WHEN p_department_id IS NOT NULL THEN 2
+    WHEN p_location_id IS NOT NULL THEN 3
+    ELSE 4
+  END;
+$$;
+
+DROP FUNCTION public.get_leave_policy(leave_type, DATE);
+
+-- The policy version that applies to an employee on a date: the most specific
+-- scope that has a version in force (NULL if none)
+CREATE OR REPLACE FUNCTION public.get_effective_leave_policy(
+  p_employee_id UUID,
+  p_leave_type leave_type,
+  p_date DATE
+)
+RETURNS public.leave_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.leave_policies lp
+  JOIN public.profiles p ON p.id = p_employee_id
+  WHERE lp.leave_type = p_leave_type
+    AND lp.effective_from <= p_date
+    AND (lp.effective_to IS NULL OR lp.effective_to >= p_date)
+    AND (
+      lp.employee_id = p.id
+      OR lp.department_id = p.department_id
+      OR lp.location_id = p.location_id
+      OR num_nonnulls(lp.employee_id, lp.department_id, lp.location_id) = 0
+    )
+  ORDER BY public.leave_policy_precedence(lp.employee_id, lp.department_id, lp.location_id),
+           lp.effective_from DESC
+  LIMIT 1;
+$$;
+
+-- Stops a scope's policy from p_effective_from onwards, so the next broader
+-- scope applies again. The version in force the day before is closed, and
+-- versions that would have started on or after that date are superseded.
+CREATE OR REPLACE FUNCTION public.end_leave_policy(
+  p_leave_type leave_type,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change leave policies' USING ERRCODE = '42501';
+  END IF;
+
+  IF num_nonnulls(p_department_id, p_location_id, p_employee_id) > 1 THEN
+    RAISE EXCEPTION 'A policy applies to at most one department, location or employee' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.leave_policies
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+  FOR UPDATE;
+
+  UPDATE public.leave_policies
+  SET effective_to = effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+    AND effective_from >= p_effective_from
+    AND (effective_to IS NULL OR effective_to >= effective_from);
+
+  UPDATE public.leave_policies
+  SET effective_to = p_effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+    AND effective_from < p_effective_from
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+END;
+$$;
+
+-- Adds a version for one scope (or the global policy when no scope is given);
+-- other scopes are untouched
+DROP FUNCTION public.set_leave_policy(leave_type, INTEGER, INTEGER, BOOLEAN, DATE);
+
+CREATE FUNCTION public.set_leave_policy(
+  p_leave_type leave_type,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_requires_approval BOOLEAN,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM public.end_leave_policy(p_leave_type, p_effective_from, p_department_id, p_location_id, p_employee_id);
+
+  INSERT INTO public.leave_policies (
+    leave_type, annual_quota, max_consecutive_days, requires_approval, effective_from,
+    department_id, location_id, employee_id, changed_by
+  )
+  VALUES (
+    p_leave_type, p_annual_quota, p_max_consecutive_days, p_requires_approval, p_effective_from,
+    p_department_id, p_location_id, p_employee_id, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Validation and the initial status now use the employee's effective policy
+CREATE OR REPLACE FUNCTION public.validate_leave_request_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.leave_policies%ROWTYPE;
+  v_year INTEGER;
+  v_year_start DATE;
+  v_year_end DATE;
+  v_requested INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Status transitions (e.g. approval) are not re-validated against the policy
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_date = OLD.start_date
+    AND NEW.end_date = OLD.end_date
+    AND NEW.leave_type = OLD.leave_type
+    AND OLD.status IN ('pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, NEW.start_date);
+
+  IF v_policy.max_consecutive_days IS NOT NULL
+    AND NEW.working_days > v_policy.max_consecutive_days
+  THEN
+    RAISE EXCEPTION 'Leave request exceeds the maximum consecutive days for this leave type'
+      USING ERRCODE = 'LV001',
+            DETAIL = format('Requested %s working days; the limit is %s.',
+                            NEW.working_days, v_policy.max_consecutive_days);
+  END IF;
+
+  FOR v_year IN
+    SELECT generate_series(EXTRACT(YEAR FROM NEW.start_date)::INTEGER,
+                           EXTRACT(YEAR FROM NEW.end_date)::INTEGER)
+  LOOP
+    v_year_start := make_date(v_year, 1, 1);
+    v_year_end := make_date(v_year, 12, 31);
+
+    -- The quota in force where the request enters this year
+    v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, GREATEST(NEW.start_date, v_year_start));
+    CONTINUE WHEN v_policy.id IS NULL OR v_policy.annual_quota = 0;
+
+    v_requested := public.count_working_days(GREATEST(NEW.start_date, v_year_start),
+                                             LEAST(NEW.end_date, v_year_end));
+
+    SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                  LEAST(lr.end_date, v_year_end))), 0)
+    INTO v_used
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = NEW.employee_id
+      AND lr.leave_type = NEW.leave_type
+      AND lr.status IN ('pending', 'approved')
+      AND lr.id <> NEW.id
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start;
+
+    IF v_used + v_requested > v_policy.annual_quota THEN
+      RAISE EXCEPTION 'Leave request exceeds the remaining annual quota for this leave type'
+        USING ERRCODE = 'LV002',
+              DETAIL = format('Requested %s working days in %s; %s of %s remaining.',
+                              v_requested, v_year,
+                              GREATEST(v_policy.annual_quota - v_used, 0),
+                              v_policy.annual_quota);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_leave_request_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.approved_by = NULL;
+  NEW.rejection_reason = NULL;
+
+  IF (public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, NEW.start_date)).requires_approval = false THEN
+    NEW.status = 'approved';
+    NEW.approved_at = now();
+    NEW.auto_approved = true;
+  ELSE
+    NEW.status = 'pending';
+    NEW.approved_at = NULL;
+    NEW.auto_approved = false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Entitlements come from the employee's effective policies today, or on the
+-- nearest day of the year for past and future years
+CREATE OR REPLACE FUNCTION public.get_leave_balances(
+  p_employee_id UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER
+)
+RETURNS TABLE (
+  leave_type leave_type,
+  year INTEGER,
+  entitlement INTEGER,
+  taken INTEGER,
+  pending INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+  v_as_of DATE := LEAST(GREATEST(CURRENT_DATE, make_date(p_year, 1, 1)), make_date(p_year, 12, 31));
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = p_employee_id AND p.manager_id = auth.uid()
+    )
+    AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Not allowed to view balances for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    -- Only the part of a request that falls inside the year counts against it
+    SELECT
+      lr.leave_type,
+      lr.status,
+      public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      ) AS days
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = p_employee_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+  )
+  SELECT
+    lp.leave_type,
+    p_year,
+    lp.annual_quota,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'approved'), 0)::INTEGER,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'pending'), 0)::INTEGER,
+    (lp.annual_quota - COALESCE(SUM(u.days), 0))::INTEGER
+  FROM (SELECT DISTINCT leave_type FROM public.leave_policies) t
+  CROSS JOIN LATERAL public.get_effective_leave_policy(p_employee_id, t.leave_type, v_as_of) lp
+  LEFT JOIN usage u ON u.leave_type = lp.leave_type
+  WHERE lp.id IS NOT NULL
+  GROUP BY lp.leave_type, lp.annual_quota
+  ORDER BY lp.leave_type;
+END;
+$$;
+
+-- Previews a version for one scope against what its employees get on that date.
+-- Only employees the scope would govern count: a more specific override wins.
+DROP FUNCTION public.preview_leave_policy_change(leave_type, INTEGER, INTEGER, DATE);
+
+CREATE FUNCTION public.preview_leave_policy_change(
+  p_leave_type leave_type,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  employees_affected INTEGER,
+  employees_over_quota INTEGER,
+  pending_over_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := date_trunc('year', p_effective_from)::DATE;
+  v_year_end DATE := (date_trunc('year', p_effective_from) + INTERVAL '1 year - 1 day')::DATE;
+  v_precedence INTEGER := public.leave_policy_precedence(p_employee_id, p_department_id, p_location_id);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview policy changes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH governed AS (
+    SELECT p.id, lp.annual_quota AS current_quota
+    FROM public.profiles p
+    CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, p_leave_type, p_effective_from) lp
+    WHERE p.is_active
+      AND (p_employee_id IS NULL OR p.id = p_employee_id)
+      AND (p_department_id IS NULL OR p.department_id = p_department_id)
+      AND (p_location_id IS NULL OR p.location_id = p_location_id)
+      AND (
+        lp.id IS NULL
+        OR public.leave_policy_precedence(lp.employee_id, lp.department_id, lp.location_id) >= v_precedence
+      )
+  ),
+  usage AS (
+    SELECT
+      lr.employee_id,
+      SUM(public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      )) AS days
+    FROM public.leave_requests lr
+    WHERE lr.leave_type = p_leave_type
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+    GROUP BY lr.employee_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE g.current_quota IS DISTINCT FROM p_annual_quota))::INTEGER,
+    (count(*) FILTER (WHERE p_annual_quota > 0 AND COALESCE(u.days, 0) > p_annual_quota))::INTEGER,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.leave_requests lr
+      JOIN governed g2 ON g2.id = lr.employee_id
+      WHERE lr.leave_type = p_leave_type
+        AND lr.status = 'pending'
+        AND lr.start_date >= p_effective_from
+        AND p_max_consecutive_days IS NOT NULL
+        AND lr.working_days > p_max_consecutive_days
+    )
+  FROM governed g
+  LEFT JOIN usage u ON u.employee_id = g.id;
+END;
+$$;
@@ -0,0 +1,367 @@
+-- Leave types are data instead of an enum, so admins can add their own. The
+-- id is the value requests and policies store; existing enum values keep it.
+CREATE TABLE public.leave_types (
+  id TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]*$'),
+  name TEXT NOT NULL CHECK (trim(name) <> ''),
+  color TEXT NOT NULL DEFAULT '#64748b' CHECK (color ~ '^#[0-9a-f]{6}$'),
+  icon TEXT NOT NULL DEFAULT 'calendar',
+  is_paid BOOLEAN NOT NULL DEFAULT true,
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX leave_types_name_key ON public.leave_types (lower(name));
+
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view leave types"
+  ON public.leave_types FOR SELECT
+  TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage leave types"
+  ON public.leave_types FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.leave_types (id, name, color, icon, is_paid, requires_reason) VALUES
+  ('sick', 'Sick', '#ef4444', 'thermometer', true, false),
+  ('vacation', 'Vacation', '#3b82f6', 'palm-tree', true, false),
+  ('family_emergency', 'Family Emergency', '#f97316', 'heart-pulse', true, false),
+  ('personal', 'Personal', '#8b5cf6', 'user', true, false),
+  ('other', 'Other', '#64748b', 'calendar', true, true);
+
+-- Functions with the enum in their signature are recreated below with TEXT
+DROP FUNCTION public.get_effective_leave_policy(UUID, leave_type, DATE);
+DROP FUNCTION public.end_leave_policy(leave_type, DATE, UUID, UUID, UUID);
+DROP FUNCTION public.set_leave_policy(leave_type, INTEGER, INTEGER, BOOLEAN, DATE, UUID, UUID, UUID);
+DROP FUNCTION public.preview_leave_policy_change(leave_type, INTEGER, INTEGER, DATE, UUID, UUID, UUID);
+DROP FUNCTION public.get_leave_balances(UUID, INTEGER);
+
+ALTER TABLE public.leave_requests
+  ALTER COLUMN leave_type TYPE TEXT USING leave_type::TEXT,
+  ADD CONSTRAINT leave_requests_leave_type_fkey
+    FOREIGN KEY (leave_type) REFERENCES public.leave_types(id);
+
+ALTER TABLE public.leave_policies
+  ALTER COLUMN leave_type TYPE TEXT USING leave_type::TEXT,
+  ADD CONSTRAINT leave_policies_leave_type_fkey
+    FOREIGN KEY (leave_type) REFERENCES public.leave_types(id);
+
+DROP TYPE public.leave_type;
+
+-- Archived types keep their history but cannot be requested again
+CREATE OR REPLACE FUNCTION public.check_leave_request_type()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.leave_type = OLD.leave_type THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leave_types lt
+    WHERE lt.id = NEW.leave_type AND lt.is_active
+  ) THEN
+    RAISE EXCEPTION 'Leave type is not available'
+      USING ERRCODE = 'LV012';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_leave_requests_type
+  BEFORE INSERT OR UPDATE OF leave_type ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION public.check_leave_request_type();
+
+-- The overlap message uses the type's display name
+CREATE OR REPLACE FUNCTION public.check_leave_request_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict public.leave_requests%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_conflict
+  FROM public.leave_requests lr
+  WHERE lr.employee_id = NEW.employee_id
+    AND lr.id <> NEW.id
+    AND lr.status IN ('pending', 'approved')
+    AND daterange(lr.start_date, lr.end_date, '[]') && daterange(NEW.start_date, NEW.end_date, '[]')
+  ORDER BY lr.start_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Leave request overlaps an existing request'
+      USING ERRCODE = 'LV003',
+            DETAIL = format('Conflicts with your %s %s request from %s to %s.',
+                            v_conflict.status,
+                            (SELECT lower(lt.name) FROM public.leave_types lt WHERE lt.id = v_conflict.leave_type),
+                            v_conflict.start_date, v_conflict.end_date),
+            HINT = v_conflict.id::TEXT;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE FUNCTION public.get_effective_leave_policy(
+  p_employee_id UUID,
+  p_leave_type TEXT,
+  p_date DATE
+)
+RETURNS public.leave_policies
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.*
+  FROM public.leave_policies lp
+  JOIN public.profiles p ON p.id = p_employee_id
+  WHERE lp.leave_type = p_leave_type
+    AND lp.effective_from <= p_date
+    AND (lp.effective_to IS NULL OR lp.effective_to >= p_date)
+    AND (
+      lp.employee_id = p.id
+      OR lp.department_id = p.department_id
+      OR lp.location_id = p.location_id
+      OR num_nonnulls(lp.employee_id, lp.department_id, lp.location_id) = 0
+    )
+  ORDER BY public.leave_policy_precedence(lp.employee_id, lp.department_id, lp.location_id),
+           lp.effective_from DESC
+  LIMIT 1;
+$$;
+
+CREATE FUNCTION public.end_leave_policy(
+  p_leave_type TEXT,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change leave policies' USING ERRCODE = '42501';
+  END IF;
+
+  IF num_nonnulls(p_department_id, p_location_id, p_employee_id) > 1 THEN
+    RAISE EXCEPTION 'A policy applies to at most one department, location or employee' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1
+  FROM public.leave_policies
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+  FOR UPDATE;
+
+  UPDATE public.leave_policies
+  SET effective_to = effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+    AND effective_from >= p_effective_from
+    AND (effective_to IS NULL OR effective_to >= effective_from);
+
+  UPDATE public.leave_policies
+  SET effective_to = p_effective_from - 1
+  WHERE leave_type = p_leave_type
+    AND department_id IS NOT DISTINCT FROM p_department_id
+    AND location_id IS NOT DISTINCT FROM p_location_id
+    AND employee_id IS NOT DISTINCT FROM p_employee_id
+    AND effective_from < p_effective_from
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+END;
+$$;
+
+CREATE FUNCTION public.set_leave_policy(
+  p_leave_type TEXT,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_requires_approval BOOLEAN,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM public.end_leave_policy(p_leave_type, p_effective_from, p_department_id, p_location_id, p_employee_id);
+
+  INSERT INTO public.leave_policies (
+    leave_type, annual_quota, max_consecutive_days, requires_approval, effective_from,
+    department_id, location_id, employee_id, changed_by
+  )
+  VALUES (
+    p_leave_type, p_annual_quota, p_max_consecutive_days, p_requires_approval, p_effective_from,
+    p_department_id, p_location_id, p_employee_id, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE FUNCTION public.get_leave_balances(
+  p_employee_id UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER
+)
+RETURNS TABLE (
+  leave_type TEXT,
+  year INTEGER,
+  entitlement INTEGER,
+  taken INTEGER,
+  pending INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+  v_as_of DATE := LEAST(GREATEST(CURRENT_DATE, make_date(p_year, 1, 1)), make_date(p_year, 12, 31));
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = p_employee_id AND p.manager_id = auth.uid()
+    )
+    AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Not allowed to view balances for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    -- Only the part of a request that falls inside the year counts against it
+    SELECT
+      lr.leave_type,
+      lr.status,
+      public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      ) AS days
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = p_employee_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+  )
+  SELECT
+    lp.leave_type,
+    p_year,
+    lp.annual_quota,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'approved'), 0)::INTEGER,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'pending'), 0)::INTEGER,
+    (lp.annual_quota - COALESCE(SUM(u.days), 0))::INTEGER
+  FROM public.leave_types t
+  CROSS JOIN LATERAL public.get_effective_leave_policy(p_employee_id, t.id, v_as_of) lp
+  LEFT JOIN usage u ON u.leave_type = lp.leave_type
+  WHERE lp.id IS NOT NULL
+  GROUP BY lp.leave_type, lp.annual_quota, t.name
+  ORDER BY t.name;
+END;
+$$;
+
+CREATE FUNCTION public.preview_leave_policy_change(
+  p_leave_type TEXT,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  employees_affected INTEGER,
+  employees_over_quota INTEGER,
+  pending_over_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := date_trunc('year', p_effective_from)::DATE;
+  v_year_end DATE := (date_trunc('year', p_effective_from) + INTERVAL '1 year - 1 day')::DATE;
+  v_precedence INTEGER := public.leave_policy_precedence(p_employee_id, p_department_id, p_location_id);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview policy changes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH governed AS (
+    SELECT p.id, lp.annual_quota AS current_quota
+    FROM public.profiles p
+    CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, p_leave_type, p_effective_from) lp
+    WHERE p.is_active
+      AND (p_employee_id IS NULL OR p.id = p_employee_id)
+      AND (p_department_id IS NULL OR p.department_id = p_department_id)
+      AND (p_location_id IS NULL OR p.location_id = p_location_id)
+      AND (
+        lp.id IS NULL
+        OR public.leave_policy_precedence(lp.employee_id, lp.department_id, lp.location_id) >= v_precedence
+      )
+  ),
+  usage AS (
+    SELECT
+      lr.employee_id,
+      SUM(public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      )) AS days
+    FROM public.leave_requests lr
+    WHERE lr.leave_type = p_leave_type
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+    GROUP BY lr.employee_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE g.current_quota IS DISTINCT FROM p_annual_quota))::INTEGER,
+    (count(*) FILTER (WHERE p_annual_quota > 0 AND COALESCE(u.days, 0) > p_annual_quota))::INTEGER,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.leave_requests lr
+      JOIN governed g2 ON g2.id = lr.employee_id
+      WHERE lr.leave_type = p_leave_type
+        AND lr.status = 'pending'
+        AND lr.start_date >= p_effective_from
+        AND p_max_consecutive_days IS NOT NULL
+        AND lr.working_days > p_max_consecutive_days
+    )
+  FROM governed g
+  LEFT JOIN usage u ON u.employee_id = g.id;
+END;
+$$;
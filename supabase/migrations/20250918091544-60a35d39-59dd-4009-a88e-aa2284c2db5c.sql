@@ -0,0 +1,663 @@
+-- How a policy's annual quota is granted over the year
+ALTER TABLE public.leave_policies
+  ADD COLUMN accrual_schedule TEXT NOT NULL DEFAULT 'annual'
+    CHECK (accrual_schedule IN ('annual', 'monthly', 'pay_period'));
+
+-- Pay periods repeat every pay_period_days from the anchor date
+ALTER TABLE public.org_settings
+  ADD COLUMN pay_period_anchor DATE NOT NULL DEFAULT '2025-01-06',
+  ADD COLUMN pay_period_days INTEGER NOT NULL DEFAULT 14 CHECK (pay_period_days BETWEEN 7 AND 31);
+
+-- Every change to an employee's entitlement, in days. A year's entitlement is
+-- the sum of the entries dated in it. Accruals are posted by the nightly run;
+-- adjustments settle policy, department, location and pay period changes
+-- straight away.
+CREATE TABLE public.leave_balance_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type TEXT NOT NULL REFERENCES public.leave_types(id),
+  entry_type TEXT NOT NULL,
+  amount NUMERIC(6, 2) NOT NULL,
+  effective_date DATE NOT NULL,
+  policy_id UUID REFERENCES public.leave_policies(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT leave_balance_ledger_entry_type_check CHECK (entry_type IN ('accrual', 'adjustment'))
+);
+
+CREATE INDEX leave_balance_ledger_employee_idx
+  ON public.leave_balance_ledger (employee_id, leave_type, effective_date);
+
+ALTER TABLE public.leave_balance_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the accrual functions
+CREATE POLICY "Employees can view their own ledger entries"
+  ON public.leave_balance_ledger FOR SELECT
+  USING (auth.uid() = employee_id);
+
+CREATE POLICY "Managers can view their reports' ledger entries"
+  ON public.leave_balance_ledger FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = employee_id AND p.manager_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all ledger entries"
+  ON public.leave_balance_ledger FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- The accrual periods of a year for a schedule. Pay periods belong to the year
+-- they start in.
+CREATE OR REPLACE FUNCTION public.leave_accrual_periods(p_schedule TEXT, p_year INTEGER)
+RETURNS TABLE (
+  period_start DATE,
+  period_end DATE,
+  period_number INTEGER,
+  period_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_anchor DATE;
+  v_days INTEGER;
+  v_first DATE;
+BEGIN
+  IF p_schedule = 'annual' THEN
+    RETURN QUERY SELECT make_date(p_year, 1, 1), make_date(p_year, 12, 31), 1, 1;
+  ELSIF p_schedule = 'monthly' THEN
+    RETURN QUERY
+    SELECT d::DATE, (d + INTERVAL '1 month - 1 day')::DATE, EXTRACT(MONTH FROM d)::INTEGER, 12
+    FROM generate_series(make_date(p_year, 1, 1), make_date(p_year, 12, 1), INTERVAL '1 month') d;
+  ELSIF p_schedule = 'pay_period' THEN
+    SELECT pay_period_anchor, pay_period_days INTO v_anchor, v_days FROM public.org_settings;
+    v_first := v_anchor + (ceil((make_date(p_year, 1, 1) - v_anchor)::NUMERIC / v_days) * v_days)::INTEGER;
+
+    RETURN QUERY
+    SELECT v_first + i * v_days, v_first + i * v_days + v_days - 1, i + 1, (count(*) OVER ())::INTEGER
+    FROM generate_series(0, (make_date(p_year, 12, 31) - v_first) / v_days) i;
+  ELSE
+    RAISE EXCEPTION 'Unknown accrual schedule %', p_schedule USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+-- What an employee should have accrued in p_year by p_as_of. Annual policies
+-- grant the quota in force on that day in full; other schedules add up the
+-- share of every period started so far, each at the quota in force on its
+-- first day. p_override is a policy version that has not been saved yet, used
+-- from its effective_from in place of the stored ones.
+CREATE OR REPLACE FUNCTION public.leave_accrual_target(
+  p_employee_id UUID,
+  p_leave_type TEXT,
+  p_year INTEGER,
+  p_as_of DATE,
+  p_override public.leave_policies DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date DATE := LEAST(p_as_of, make_date(p_year, 12, 31));
+  v_hired DATE;
+  v_policy public.leave_policies%ROWTYPE;
+  v_period RECORD;
+  v_quota NUMERIC;
+  v_target NUMERIC := 0;
+BEGIN
+  SELECT created_at::DATE INTO v_hired FROM public.profiles WHERE id = p_employee_id;
+
+  IF v_date < make_date(p_year, 1, 1) OR v_hired > v_date THEN
+    RETURN 0;
+  END IF;
+
+  v_policy := CASE
+    WHEN v_date >= p_override.effective_from THEN p_override
+    ELSE public.get_effective_leave_policy(p_employee_id, p_leave_type, v_date)
+  END;
+
+  IF v_policy.accrual_schedule IS NULL THEN
+    RETURN 0;
+  ELSIF v_policy.accrual_schedule = 'annual' THEN
+    RETURN COALESCE(v_policy.annual_quota, 0);
+  END IF;
+
+  FOR v_period IN
+    SELECT ap.*
+    FROM public.leave_accrual_periods(v_policy.accrual_schedule, p_year) ap
+    WHERE ap.period_start <= v_date
+      AND ap.period_end >= v_hired
+  LOOP
+    v_policy := CASE
+      WHEN v_period.period_start >= p_override.effective_from THEN p_override
+      ELSE public.get_effective_leave_policy(p_employee_id, p_leave_type, v_period.period_start)
+    END;
+    v_quota := COALESCE(v_policy.annual_quota, 0);
+
+    v_target := v_target
+      + round(v_quota * v_period.period_number / v_period.period_count, 2)
+      - round(v_quota * (v_period.period_number - 1) / v_period.period_count, 2);
+  END LOOP;
+
+  RETURN v_target;
+END;
+$$;
+
+-- Brings the ledger in line with leave_accrual_target for this year and last
+-- (so a missed run at year end is caught up). Rather than posting each period
+-- once, every run posts the difference from what the ledger already holds, so
+-- re-runs are no-ops and policy, department, location or pay period changes
+-- are settled by the next run. The difference is posted as one entry dated
+-- p_as_of, or 31 December for last year. Returns the number of entries posted.
+CREATE OR REPLACE FUNCTION public.sync_leave_accruals(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_employee_id UUID DEFAULT NULL,
+  p_leave_type TEXT DEFAULT NULL,
+  p_entry_type TEXT DEFAULT 'accrual',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- Two runs at once would both post the same difference
+  PERFORM pg_advisory_xact_lock(hashtext('sync_leave_accruals'));
+
+  INSERT INTO public.leave_balance_ledger (employee_id, leave_type, entry_type, amount, effective_date, policy_id, note)
+  SELECT
+    d.employee_id,
+    d.leave_type,
+    p_entry_type,
+    d.target - d.posted,
+    d.effective_date,
+    (public.get_effective_leave_policy(d.employee_id, d.leave_type, d.effective_date)).id,
+    COALESCE(p_note, format('Accrued to %s', to_char(d.effective_date, 'FMDD Mon YYYY')))
+  FROM (
+    SELECT
+      p.id AS employee_id,
+      t.id AS leave_type,
+      LEAST(p_as_of, make_date(y, 12, 31)) AS effective_date,
+      public.leave_accrual_target(p.id, t.id, y, p_as_of) AS target,
+      (
+        SELECT COALESCE(SUM(l.amount), 0)
+        FROM public.leave_balance_ledger l
+        WHERE l.employee_id = p.id
+          AND l.leave_type = t.id
+          AND l.entry_type IN ('accrual', 'adjustment')
+          AND l.effective_date BETWEEN make_date(y, 1, 1) AND make_date(y, 12, 31)
+      ) AS posted
+    FROM public.profiles p
+    CROSS JOIN public.leave_types t
+    CROSS JOIN generate_series(EXTRACT(YEAR FROM p_as_of)::INTEGER - 1, EXTRACT(YEAR FROM p_as_of)::INTEGER) y
+    WHERE p.is_active
+      AND (p_employee_id IS NULL OR p.id = p_employee_id)
+      AND (p_leave_type IS NULL OR t.id = p_leave_type)
+  ) d
+  WHERE d.target <> d.posted;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Only reachable through run_leave_accruals and the triggers below
+REVOKE EXECUTE ON FUNCTION public.leave_accrual_target(UUID, TEXT, INTEGER, DATE, public.leave_policies)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_leave_accruals(DATE, UUID, TEXT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Posts the accruals due by p_as_of. Returns the number of entries posted.
+CREATE OR REPLACE FUNCTION public.run_leave_accruals(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Scheduled runs have no signed-in user
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run accruals' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.sync_leave_accruals(p_as_of);
+END;
+$$;
+
+-- Entitlement for a year: what the ledger holds once the year has started,
+-- and the full quota of the policy in force on 1 January before that
+CREATE OR REPLACE FUNCTION public.get_leave_entitlement(
+  p_employee_id UUID,
+  p_leave_type TEXT,
+  p_year INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN make_date(p_year, 1, 1) > CURRENT_DATE THEN
+      COALESCE((public.get_effective_leave_policy(p_employee_id, p_leave_type, make_date(p_year, 1, 1))).annual_quota, 0)::NUMERIC
+    ELSE (
+      SELECT COALESCE(SUM(l.amount), 0)
+      FROM public.leave_balance_ledger l
+      WHERE l.employee_id = p_employee_id
+        AND l.leave_type = p_leave_type
+        AND l.effective_date BETWEEN make_date(p_year, 1, 1) AND make_date(p_year, 12, 31)
+    )
+  END;
+$$;
+
+-- Past years were granted up front, so open the ledger with each year's quota
+-- as balances showed it (the policy in force on 31 December)
+INSERT INTO public.leave_balance_ledger (employee_id, leave_type, entry_type, amount, effective_date, policy_id, note, created_by)
+SELECT p.id, t.id, 'accrual', lp.annual_quota, make_date(y, 1, 1), lp.id, 'Opening balance', NULL
+FROM public.profiles p
+CROSS JOIN public.leave_types t
+CROSS JOIN generate_series(
+  (SELECT EXTRACT(YEAR FROM min(effective_from))::INTEGER FROM public.leave_policies),
+  EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER - 1
+) y
+CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, t.id, make_date(y, 12, 31)) lp
+WHERE lp.id IS NOT NULL
+  AND lp.annual_quota > 0
+  AND p.created_at::DATE <= make_date(y, 12, 31);
+
+SELECT public.sync_leave_accruals();
+
+-- Quota checks use the entitlement instead of the policy's annual quota
+CREATE OR REPLACE FUNCTION public.validate_leave_request_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.leave_policies%ROWTYPE;
+  v_year INTEGER;
+  v_year_start DATE;
+  v_year_end DATE;
+  v_entitlement NUMERIC;
+  v_requested INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Status transitions (e.g. approval) are not re-validated against the policy
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_date = OLD.start_date
+    AND NEW.end_date = OLD.end_date
+    AND NEW.leave_type = OLD.leave_type
+    AND OLD.status IN ('pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, NEW.start_date);
+
+  IF v_policy.max_consecutive_days IS NOT NULL
+    AND NEW.working_days > v_policy.max_consecutive_days
+  THEN
+    RAISE EXCEPTION 'Leave request exceeds the maximum consecutive days for this leave type'
+      USING ERRCODE = 'LV001',
+            DETAIL = format('Requested %s working days; the limit is %s.',
+                            NEW.working_days, v_policy.max_consecutive_days);
+  END IF;
+
+  FOR v_year IN
+    SELECT generate_series(EXTRACT(YEAR FROM NEW.start_date)::INTEGER,
+                           EXTRACT(YEAR FROM NEW.end_date)::INTEGER)
+  LOOP
+    v_year_start := make_date(v_year, 1, 1);
+    v_year_end := make_date(v_year, 12, 31);
+
+    -- Types whose policy has no quota are not tracked
+    v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, GREATEST(NEW.start_date, v_year_start));
+    CONTINUE WHEN v_policy.id IS NULL OR v_policy.annual_quota = 0;
+
+    v_entitlement := public.get_leave_entitlement(NEW.employee_id, NEW.leave_type, v_year);
+    v_requested := public.count_working_days(GREATEST(NEW.start_date, v_year_start),
+                                             LEAST(NEW.end_date, v_year_end));
+
+    SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                  LEAST(lr.end_date, v_year_end))), 0)
+    INTO v_used
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = NEW.employee_id
+      AND lr.leave_type = NEW.leave_type
+      AND lr.status IN ('pending', 'approved')
+      AND lr.id <> NEW.id
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start;
+
+    IF v_used + v_requested > v_entitlement THEN
+      RAISE EXCEPTION 'Leave request exceeds the remaining entitlement for this leave type'
+        USING ERRCODE = 'LV002',
+              DETAIL = format('Requested %s working days in %s; %s of %s remaining.',
+                              v_requested, v_year,
+                              GREATEST(v_entitlement - v_used, 0),
+                              v_entitlement);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Entitlements can now be fractional
+DROP FUNCTION public.get_leave_balances(UUID, INTEGER);
+
+CREATE FUNCTION public.get_leave_balances(
+  p_employee_id UUID DEFAULT auth.uid(),
+  p_year INTEGER DEFAULT EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER
+)
+RETURNS TABLE (
+  leave_type TEXT,
+  year INTEGER,
+  entitlement NUMERIC,
+  taken INTEGER,
+  pending INTEGER,
+  remaining NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+  v_as_of DATE := LEAST(GREATEST(CURRENT_DATE, make_date(p_year, 1, 1)), make_date(p_year, 12, 31));
+BEGIN
+  IF p_employee_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = p_employee_id AND p.manager_id = auth.uid()
+    )
+    AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'
+  THEN
+    RAISE EXCEPTION 'Not allowed to view balances for this employee'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH usage AS (
+    -- Only the part of a request that falls inside the year counts against it
+    SELECT
+      lr.leave_type,
+      lr.status,
+      public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      ) AS days
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = p_employee_id
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+  ),
+  tracked AS (
+    SELECT t.id, t.name, public.get_leave_entitlement(p_employee_id, t.id, p_year) AS entitlement
+    FROM public.leave_types t
+    CROSS JOIN LATERAL public.get_effective_leave_policy(p_employee_id, t.id, v_as_of) lp
+    WHERE lp.id IS NOT NULL
+  )
+  SELECT
+    tr.id,
+    p_year,
+    tr.entitlement,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'approved'), 0)::INTEGER,
+    COALESCE(SUM(u.days) FILTER (WHERE u.status = 'pending'), 0)::INTEGER,
+    tr.entitlement - COALESCE(SUM(u.days), 0)
+  FROM tracked tr
+  LEFT JOIN usage u ON u.leave_type = tr.id
+  GROUP BY tr.id, tr.name, tr.entitlement
+  ORDER BY tr.name;
+END;
+$$;
+
+-- Accrual schedule is part of a policy version
+DROP FUNCTION public.set_leave_policy(TEXT, INTEGER, INTEGER, BOOLEAN, DATE, UUID, UUID, UUID);
+
+CREATE FUNCTION public.set_leave_policy(
+  p_leave_type TEXT,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_requires_approval BOOLEAN,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL,
+  p_accrual_schedule TEXT DEFAULT 'annual'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM public.end_leave_policy(p_leave_type, p_effective_from, p_department_id, p_location_id, p_employee_id);
+
+  INSERT INTO public.leave_policies (
+    leave_type, annual_quota, max_consecutive_days, requires_approval, effective_from,
+    department_id, location_id, employee_id, accrual_schedule, changed_by
+  )
+  VALUES (
+    p_leave_type, p_annual_quota, p_max_consecutive_days, p_requires_approval, p_effective_from,
+    p_department_id, p_location_id, p_employee_id, p_accrual_schedule, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- A year is accrued on a single schedule, so a version may only switch the
+-- schedule of the employees it governs from 1 January. Runs at commit, once
+-- set_leave_policy has both ended the old version and inserted the new one,
+-- and then adjusts the balances of this leave type.
+CREATE OR REPLACE FUNCTION public.sync_leave_policy_accruals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_boundary DATE;
+BEGIN
+  -- The days on which this version starts or stops applying
+  FOREACH v_boundary IN ARRAY ARRAY[NEW.effective_from, NEW.effective_to + 1]
+  LOOP
+    CONTINUE WHEN v_boundary IS NULL OR v_boundary = date_trunc('year', v_boundary)::DATE;
+
+    IF EXISTS (
+      SELECT 1
+      FROM public.profiles p
+      CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, NEW.leave_type, v_boundary - 1) lp_before
+      CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, NEW.leave_type, v_boundary) lp_after
+      WHERE p.is_active
+        AND (NEW.employee_id IS NULL OR p.id = NEW.employee_id)
+        AND (NEW.department_id IS NULL OR p.department_id = NEW.department_id)
+        AND (NEW.location_id IS NULL OR p.location_id = NEW.location_id)
+        AND lp_before.accrual_schedule <> lp_after.accrual_schedule
+    ) THEN
+      RAISE EXCEPTION 'Accrual schedule changes in the middle of a year'
+        USING ERRCODE = 'LV013',
+              DETAIL = format('Make the change effective from 1 January %s instead.',
+                              EXTRACT(YEAR FROM v_boundary)::INTEGER + 1);
+    END IF;
+  END LOOP;
+
+  PERFORM public.sync_leave_accruals(CURRENT_DATE, NEW.employee_id, NEW.leave_type, 'adjustment', 'Policy change');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER sync_leave_policies_accruals
+  AFTER INSERT OR UPDATE ON public.leave_policies
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.sync_leave_policy_accruals();
+
+-- New employees accrue from the day they join; moving department or location
+-- re-derives the year under the policies that now apply
+CREATE OR REPLACE FUNCTION public.sync_profile_accruals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.sync_leave_accruals(CURRENT_DATE, NEW.id);
+  ELSE
+    PERFORM public.sync_leave_accruals(CURRENT_DATE, NEW.id, NULL, 'adjustment', 'Department or location change');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_profiles_accruals
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.sync_profile_accruals();
+
+CREATE TRIGGER sync_profiles_accruals_on_move
+  AFTER UPDATE OF department_id, location_id ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.department_id IS DISTINCT FROM NEW.department_id OR OLD.location_id IS DISTINCT FROM NEW.location_id)
+  EXECUTE FUNCTION public.sync_profile_accruals();
+
+-- Moving the pay periods re-derives this year's pay period accruals
+CREATE OR REPLACE FUNCTION public.sync_pay_period_accruals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_leave_accruals(CURRENT_DATE, NULL, NULL, 'adjustment', 'Pay period change');
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_org_settings_accruals
+  AFTER UPDATE OF pay_period_anchor, pay_period_days ON public.org_settings
+  FOR EACH ROW
+  WHEN (OLD.pay_period_anchor IS DISTINCT FROM NEW.pay_period_anchor OR OLD.pay_period_days IS DISTINCT FROM NEW.pay_period_days)
+  EXECUTE FUNCTION public.sync_pay_period_accruals();
+
+-- The preview compares entitlements for the year instead of annual quotas,
+-- so it needs the schedule of the new version
+DROP FUNCTION public.preview_leave_policy_change(TEXT, INTEGER, INTEGER, DATE, UUID, UUID, UUID);
+
+CREATE FUNCTION public.preview_leave_policy_change(
+  p_leave_type TEXT,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL,
+  p_accrual_schedule TEXT DEFAULT 'annual'
+)
+RETURNS TABLE (
+  employees_affected INTEGER,
+  employees_over_quota INTEGER,
+  pending_over_limit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year INTEGER := EXTRACT(YEAR FROM p_effective_from)::INTEGER;
+  v_year_start DATE := date_trunc('year', p_effective_from)::DATE;
+  v_year_end DATE := (date_trunc('year', p_effective_from) + INTERVAL '1 year - 1 day')::DATE;
+  v_precedence INTEGER := public.leave_policy_precedence(p_employee_id, p_department_id, p_location_id);
+  v_override public.leave_policies%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview policy changes' USING ERRCODE = '42501';
+  END IF;
+
+  v_override.leave_type := p_leave_type;
+  v_override.annual_quota := p_annual_quota;
+  v_override.max_consecutive_days := p_max_consecutive_days;
+  v_override.accrual_schedule := p_accrual_schedule;
+  v_override.effective_from := p_effective_from;
+
+  RETURN QUERY
+  WITH governed AS (
+    SELECT
+      p.id,
+      public.leave_accrual_target(p.id, p_leave_type, v_year, v_year_end) AS current_entitlement,
+      public.leave_accrual_target(p.id, p_leave_type, v_year, v_year_end, v_override) AS new_entitlement
+    FROM public.profiles p
+    CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, p_leave_type, p_effective_from) lp
+    WHERE p.is_active
+      AND (p_employee_id IS NULL OR p.id = p_employee_id)
+      AND (p_department_id IS NULL OR p.department_id = p_department_id)
+      AND (p_location_id IS NULL OR p.location_id = p_location_id)
+      AND (
+        lp.id IS NULL
+        OR public.leave_policy_precedence(lp.employee_id, lp.department_id, lp.location_id) >= v_precedence
+      )
+  ),
+  usage AS (
+    SELECT
+      lr.employee_id,
+      SUM(public.count_working_days(
+        GREATEST(lr.start_date, v_year_start),
+        LEAST(lr.end_date, v_year_end)
+      )) AS days
+    FROM public.leave_requests lr
+    WHERE lr.leave_type = p_leave_type
+      AND lr.status IN ('approved', 'pending')
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start
+    GROUP BY lr.employee_id
+  )
+  SELECT
+    (count(*) FILTER (WHERE g.current_entitlement <> g.new_entitlement))::INTEGER,
+    (count(*) FILTER (WHERE p_annual_quota > 0 AND COALESCE(u.days, 0) > g.new_entitlement))::INTEGER,
+    (
+      SELECT count(*)::INTEGER
+      FROM public.leave_requests lr
+      JOIN governed g2 ON g2.id = lr.employee_id
+      WHERE lr.leave_type = p_leave_type
+        AND lr.status = 'pending'
+        AND lr.start_date >= p_effective_from
+        AND p_max_consecutive_days IS NOT NULL
+        AND lr.working_days > p_max_consecutive_days
+    )
+  FROM governed g
+  LEFT JOIN usage u ON u.employee_id = g.id;
+END;
+$$;
+
+-- Post accruals daily, and catch up on any missed days
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('run-leave-accruals', '15 0 * * *', $$SELECT public.run_leave_accruals()$$);
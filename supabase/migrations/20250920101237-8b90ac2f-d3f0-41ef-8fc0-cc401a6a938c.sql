@@ -0,0 +1,378 @@
+-- How much unused entitlement a policy lets employees take into the next
+-- year, and the month (of that year) by the end of which it must be used.
+-- Carried days never expire when carryover_expiry_months is NULL.
+ALTER TABLE public.leave_policies
+  ADD COLUMN max_carryover_days INTEGER NOT NULL DEFAULT 0 CHECK (max_carryover_days BETWEEN 0 AND 366),
+  ADD COLUMN carryover_expiry_months INTEGER CHECK (carryover_expiry_months BETWEEN 1 AND 12);
+
+-- One row per year-end rollover; its ledger entries point back to it so the
+-- whole run can be reversed
+CREATE TABLE public.leave_rollovers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_year INTEGER NOT NULL,
+  run_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reversed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A year can only be rolled over again once its last rollover was reversed
+CREATE UNIQUE INDEX leave_rollovers_from_year_key
+  ON public.leave_rollovers (from_year)
+  WHERE reversed_at IS NULL;
+
+ALTER TABLE public.leave_rollovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view rollovers"
+  ON public.leave_rollovers FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Carryover entries are dated 1 January and record when they expire. Expiry
+-- and reversal entries point at the entry they settle through source_id.
+ALTER TABLE public.leave_balance_ledger
+  ADD COLUMN rollover_id UUID REFERENCES public.leave_rollovers(id) ON DELETE RESTRICT,
+  ADD COLUMN source_id UUID REFERENCES public.leave_balance_ledger(id) ON DELETE RESTRICT,
+  ADD COLUMN expires_on DATE,
+  DROP CONSTRAINT leave_balance_ledger_entry_type_check,
+  ADD CONSTRAINT leave_balance_ledger_entry_type_check
+    CHECK (entry_type IN ('accrual', 'adjustment', 'carryover', 'carryover_expiry', 'reversal'));
+
+-- An entry expires or is reversed at most once
+CREATE UNIQUE INDEX leave_balance_ledger_source_key
+  ON public.leave_balance_ledger (source_id, entry_type)
+  WHERE source_id IS NOT NULL;
+
+-- Once a year has been rolled over its accruals are settled, so later policy
+-- changes no longer adjust it. Reversing the rollover opens it up again.
+CREATE OR REPLACE FUNCTION public.sync_leave_accruals(
+  p_as_of DATE DEFAULT CURRENT_DATE,
+  p_employee_id UUID DEFAULT NULL,
+  p_leave_type TEXT DEFAULT NULL,
+  p_entry_type TEXT DEFAULT 'accrual',
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  -- Two runs at once would both post the same difference
+  PERFORM pg_advisory_xact_lock(hashtext('sync_leave_accruals'));
+
+  INSERT INTO public.leave_balance_ledger (employee_id, leave_type, entry_type, amount, effective_date, policy_id, note)
+  SELECT
+    d.employee_id,
+    d.leave_type,
+    p_entry_type,
+    d.target - d.posted,
+    d.effective_date,
+    (public.get_effective_leave_policy(d.employee_id, d.leave_type, d.effective_date)).id,
+    COALESCE(p_note, format('Accrued to %s', to_char(d.effective_date, 'FMDD Mon YYYY')))
+  FROM (
+    SELECT
+      p.id AS employee_id,
+      t.id AS leave_type,
+      LEAST(p_as_of, make_date(y, 12, 31)) AS effective_date,
+      public.leave_accrual_target(p.id, t.id, y, p_as_of) AS target,
+      (
+        SELECT COALESCE(SUM(l.amount), 0)
+        FROM public.leave_balance_ledger l
+        WHERE l.employee_id = p.id
+          AND l.leave_type = t.id
+          AND l.entry_type IN ('accrual', 'adjustment')
+          AND l.effective_date BETWEEN make_date(y, 1, 1) AND make_date(y, 12, 31)
+      ) AS posted
+    FROM public.profiles p
+    CROSS JOIN public.leave_types t
+    CROSS JOIN generate_series(EXTRACT(YEAR FROM p_as_of)::INTEGER - 1, EXTRACT(YEAR FROM p_as_of)::INTEGER) y
+    WHERE p.is_active
+      AND (p_employee_id IS NULL OR p.id = p_employee_id)
+      AND (p_leave_type IS NULL OR t.id = p_leave_type)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.leave_rollovers r
+        WHERE r.from_year = y AND r.reversed_at IS NULL
+      )
+  ) d
+  WHERE d.target <> d.posted;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- What each employee would carry into p_year + 1 and what they would lose:
+-- the unused entitlement of p_year (pending requests count as used, as they
+-- do on balances) capped by the policy in force on 31 December
+CREATE OR REPLACE FUNCTION public.preview_year_end_rollover(p_year INTEGER)
+RETURNS TABLE (
+  employee_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  leave_type TEXT,
+  policy_id UUID,
+  entitlement NUMERIC,
+  used INTEGER,
+  unused NUMERIC,
+  carryover NUMERIC,
+  forfeited NUMERIC,
+  expires_on DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_year_start DATE := make_date(p_year, 1, 1);
+  v_year_end DATE := make_date(p_year, 12, 31);
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can preview the year-end rollover' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH balances AS (
+    SELECT
+      p.id AS employee_id,
+      p.first_name,
+      p.last_name,
+      t.id AS leave_type,
+      t.name AS leave_type_name,
+      lp.id AS policy_id,
+      lp.max_carryover_days,
+      lp.carryover_expiry_months,
+      public.get_leave_entitlement(p.id, t.id, p_year) AS entitlement,
+      (
+        SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                      LEAST(lr.end_date, v_year_end))), 0)::INTEGER
+        FROM public.leave_requests lr
+        WHERE lr.employee_id = p.id
+          AND lr.leave_type = t.id
+          AND lr.status IN ('pending', 'approved')
+          AND lr.start_date <= v_year_end
+          AND lr.end_date >= v_year_start
+      ) AS used
+    FROM public.profiles p
+    CROSS JOIN public.leave_types t
+    CROSS JOIN LATERAL public.get_effective_leave_policy(p.id, t.id, v_year_end) lp
+    WHERE p.is_active
+      AND lp.id IS NOT NULL
+      AND lp.annual_quota > 0
+  ),
+  remaining AS (
+    SELECT b.*, GREATEST(b.entitlement - b.used, 0) AS unused
+    FROM balances b
+  )
+  SELECT
+    u.employee_id,
+    u.first_name,
+    u.last_name,
+    u.leave_type,
+    u.policy_id,
+    u.entitlement,
+    u.used,
+    u.unused,
+    LEAST(u.unused, u.max_carryover_days),
+    u.unused - LEAST(u.unused, u.max_carryover_days),
+    CASE
+      WHEN u.carryover_expiry_months IS NOT NULL AND LEAST(u.unused, u.max_carryover_days) > 0 THEN
+        (v_year_end + make_interval(months => u.carryover_expiry_months))::DATE
+    END
+  FROM remaining u
+  ORDER BY u.last_name, u.first_name, u.leave_type_name;
+END;
+$$;
+
+-- Posts the previewed carryover as ledger entries dated 1 January of the next
+-- year. Nothing is posted for forfeited days; they simply stay in p_year.
+-- Returns the rollover id.
+CREATE OR REPLACE FUNCTION public.run_year_end_rollover(p_year INTEGER)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can run the year-end rollover' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_year >= EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER THEN
+    RAISE EXCEPTION 'Year has not ended yet'
+      USING ERRCODE = 'LV014',
+            DETAIL = format('%s can be rolled over from 1 January %s.', p_year, p_year + 1);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.leave_rollovers WHERE from_year = p_year AND reversed_at IS NULL) THEN
+    RAISE EXCEPTION 'Year has already been rolled over'
+      USING ERRCODE = 'LV015',
+            DETAIL = format('Reverse the existing %s rollover before running it again.', p_year);
+  END IF;
+
+  INSERT INTO public.leave_rollovers (from_year) VALUES (p_year) RETURNING id INTO v_id;
+
+  INSERT INTO public.leave_balance_ledger (
+    employee_id, leave_type, entry_type, amount, effective_date, expires_on, policy_id, rollover_id, note
+  )
+  SELECT
+    r.employee_id,
+    r.leave_type,
+    'carryover',
+    r.carryover,
+    make_date(p_year + 1, 1, 1),
+    r.expires_on,
+    r.policy_id,
+    v_id,
+    format('Carried over from %s', p_year)
+  FROM public.preview_year_end_rollover(p_year) r
+  WHERE r.carryover > 0;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Reverses every entry a rollover posted, including expiries posted since,
+-- with entries of the opposite amount on the same dates
+CREATE OR REPLACE FUNCTION public.reverse_year_end_rollover(p_rollover_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can reverse a rollover' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.leave_rollovers
+  SET reversed_at = now(), reversed_by = auth.uid()
+  WHERE id = p_rollover_id AND reversed_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rollover not found or already reversed' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.leave_balance_ledger (
+    employee_id, leave_type, entry_type, amount, effective_date, policy_id, rollover_id, source_id, note
+  )
+  SELECT
+    l.employee_id,
+    l.leave_type,
+    'reversal',
+    -l.amount,
+    l.effective_date,
+    l.policy_id,
+    l.rollover_id,
+    l.id,
+    'Rollover reversed'
+  FROM public.leave_balance_ledger l
+  WHERE l.rollover_id = p_rollover_id
+    AND l.entry_type <> 'reversal';
+END;
+$$;
+
+-- Expires the carried days that were not used by their expiry date. Carried
+-- days are used before the new year's own entitlement, so whatever leave was
+-- taken up to that date comes off them first. Returns the number of entries
+-- posted.
+CREATE OR REPLACE FUNCTION public.expire_leave_carryover(p_as_of DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can expire carryover' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.leave_balance_ledger (
+    employee_id, leave_type, entry_type, amount, effective_date, policy_id, rollover_id, source_id, note
+  )
+  SELECT
+    c.employee_id,
+    c.leave_type,
+    'carryover_expiry',
+    -(c.amount - LEAST(c.amount, u.used)),
+    c.expires_on,
+    c.policy_id,
+    c.rollover_id,
+    c.id,
+    format('Unused carryover expired on %s', to_char(c.expires_on, 'FMDD Mon YYYY'))
+  FROM public.leave_balance_ledger c
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, c.effective_date),
+                                                  LEAST(lr.end_date, c.expires_on))), 0) AS used
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = c.employee_id
+      AND lr.leave_type = c.leave_type
+      AND lr.status IN ('pending', 'approved')
+      AND lr.start_date <= c.expires_on
+      AND lr.end_date >= c.effective_date
+  ) u
+  WHERE c.entry_type = 'carryover'
+    AND c.expires_on < p_as_of
+    AND c.amount > u.used
+    AND NOT EXISTS (
+      SELECT 1 FROM public.leave_balance_ledger s
+      WHERE s.source_id = c.id
+    )
+  ON CONFLICT (source_id, entry_type) WHERE source_id IS NOT NULL DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Carryover rules are part of a policy version
+DROP FUNCTION public.set_leave_policy(TEXT, INTEGER, INTEGER, BOOLEAN, DATE, UUID, UUID, UUID, TEXT);
+
+CREATE FUNCTION public.set_leave_policy(
+  p_leave_type TEXT,
+  p_annual_quota INTEGER,
+  p_max_consecutive_days INTEGER,
+  p_requires_approval BOOLEAN,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_department_id UUID DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_employee_id UUID DEFAULT NULL,
+  p_accrual_schedule TEXT DEFAULT 'annual',
+  p_max_carryover_days INTEGER DEFAULT 0,
+  p_carryover_expiry_months INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM public.end_leave_policy(p_leave_type, p_effective_from, p_department_id, p_location_id, p_employee_id);
+
+  INSERT INTO public.leave_policies (
+    leave_type, annual_quota, max_consecutive_days, requires_approval, effective_from,
+    department_id, location_id, employee_id, accrual_schedule, max_carryover_days,
+    carryover_expiry_months, changed_by
+  )
+  VALUES (
+    p_leave_type, p_annual_quota, p_max_consecutive_days, p_requires_approval, p_effective_from,
+    p_department_id, p_location_id, p_employee_id, p_accrual_schedule, p_max_carryover_days,
+    p_carryover_expiry_months, auth.uid()
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Expire unused carryover the day after it lapses
+SELECT cron.schedule('expire-leave-carryover', '20 0 * * *', $$SELECT public.expire_leave_carryover()$$);
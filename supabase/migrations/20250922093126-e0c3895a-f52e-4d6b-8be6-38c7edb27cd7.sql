@@ -0,0 +1,118 @@
+-- Invitations and signups follow the same reporting-line rules as
+-- set_user_manager (LV008, LV009)
+
+-- Whether p_manager_id is p_user_id or reports to them, directly or not
+CREATE OR REPLACE FUNCTION public.creates_reporting_cycle(p_user_id UUID, p_manager_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH RECURSIVE chain AS (
+    SELECT p_manager_id AS id
+    UNION
+    SELECT p.manager_id
+    FROM public.profiles p
+    JOIN chain c ON p.id = c.id
+    WHERE p.manager_id IS NOT NULL
+  )
+  SELECT EXISTS (SELECT 1 FROM chain WHERE id = p_user_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_invitation_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.manager_id IS NOT NULL AND NOT public.has_role(NEW.manager_id, 'manager') THEN
+    RAISE EXCEPTION 'The selected user is not a manager' USING ERRCODE = 'LV009';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_invitations_manager
+  BEFORE INSERT OR UPDATE OF manager_id ON public.invitations
+  FOR EACH ROW EXECUTE FUNCTION public.check_invitation_manager();
+
+-- The invited manager may have lost the manager role since the invitation was
+-- sent; signup still succeeds, without the reporting line. Pending reporting
+-- lines that would now form a cycle are left pending.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invite
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data ->> 'invite_token'
+    AND lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > now()
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL AND NOT (SELECT allow_open_signup FROM public.org_settings) THEN
+    RAISE EXCEPTION 'Signup requires a valid invitation' USING ERRCODE = 'LV010';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, department_id, manager_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'first_name', ''), v_invite.first_name, ''),
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'last_name', ''), v_invite.last_name, ''),
+    v_invite.department_id,
+    CASE WHEN public.has_role(v_invite.manager_id, 'manager') THEN v_invite.manager_id END
+  );
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'employee');
+
+  IF v_invite.id IS NOT NULL THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, v_invite.role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = v_invite.id;
+  END IF;
+
+  -- People already signed up who were waiting for this manager
+  UPDATE public.profiles p
+  SET manager_id = NEW.id
+  FROM public.pending_reporting_lines l
+  WHERE lower(p.email) = l.employee_email
+    AND l.manager_email = lower(NEW.email)
+    AND NOT public.creates_reporting_cycle(p.id, NEW.id);
+
+  -- This user's own manager, if they signed up first
+  UPDATE public.profiles p
+  SET manager_id = m.id
+  FROM public.pending_reporting_lines l
+  JOIN public.profiles m ON lower(m.email) = l.manager_email
+  WHERE p.id = NEW.id
+    AND l.employee_email = lower(NEW.email)
+    AND public.has_role(m.id, 'manager')
+    AND NOT public.creates_reporting_cycle(NEW.id, m.id);
+
+  DELETE FROM public.pending_reporting_lines l
+  WHERE EXISTS (
+    SELECT 1 FROM public.profiles p
+    JOIN public.profiles m ON m.id = p.manager_id
+    WHERE lower(p.email) = l.employee_email
+      AND lower(m.email) = l.manager_email
+  );
+
+  RETURN NEW;
+END;
+$$;
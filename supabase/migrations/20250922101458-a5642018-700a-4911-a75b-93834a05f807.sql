@@ -0,0 +1,26 @@
+-- Employee overrides are individual entitlements: only the employee, their
+-- manager and admins may see them. Department, location and global policies
+-- stay visible to everyone.
+DROP POLICY "Everyone can view leave policies" ON public.leave_policies;
+
+CREATE POLICY "Everyone can view shared leave policies"
+  ON public.leave_policies FOR SELECT
+  TO authenticated
+  USING (employee_id IS NULL);
+
+CREATE POLICY "Employees can view their own leave policy overrides"
+  ON public.leave_policies FOR SELECT
+  USING (auth.uid() = employee_id);
+
+CREATE POLICY "Managers can view their reports' leave policy overrides"
+  ON public.leave_policies FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = employee_id AND p.manager_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all leave policies"
+  ON public.leave_policies FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,85 @@
+-- The remaining-entitlement check reads the employee's other requests, which
+-- a concurrent transaction can't see until it commits
+CREATE OR REPLACE FUNCTION public.validate_leave_request_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy public.leave_policies%ROWTYPE;
+  v_year INTEGER;
+  v_year_start DATE;
+  v_year_end DATE;
+  v_entitlement NUMERIC;
+  v_requested INTEGER;
+  v_used INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Status transitions (e.g. approval) are not re-validated against the policy
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_date = OLD.start_date
+    AND NEW.end_date = OLD.end_date
+    AND NEW.leave_type = OLD.leave_type
+    AND OLD.status IN ('pending', 'approved')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, NEW.start_date);
+
+  IF v_policy.max_consecutive_days IS NOT NULL
+    AND NEW.working_days > v_policy.max_consecutive_days
+  THEN
+    RAISE EXCEPTION 'Leave request exceeds the maximum consecutive days for this leave type'
+      USING ERRCODE = 'LV001',
+            DETAIL = format('Requested %s working days; the limit is %s.',
+                            NEW.working_days, v_policy.max_consecutive_days);
+  END IF;
+
+  FOR v_year IN
+    SELECT generate_series(EXTRACT(YEAR FROM NEW.start_date)::INTEGER,
+                           EXTRACT(YEAR FROM NEW.end_date)::INTEGER)
+  LOOP
+    v_year_start := make_date(v_year, 1, 1);
+    v_year_end := make_date(v_year, 12, 31);
+
+    -- Types whose policy has no quota are not tracked
+    v_policy := public.get_effective_leave_policy(NEW.employee_id, NEW.leave_type, GREATEST(NEW.start_date, v_year_start));
+    CONTINUE WHEN v_policy.id IS NULL OR v_policy.annual_quota = 0;
+
+    -- Serialize requests for the same employee, type and year, so two
+    -- concurrent inserts cannot both fit in the same remaining days
+    PERFORM pg_advisory_xact_lock(hashtext(format('leave_quota:%s:%s:%s', NEW.employee_id, NEW.leave_type, v_year)));
+
+    v_entitlement := public.get_leave_entitlement(NEW.employee_id, NEW.leave_type, v_year);
+    v_requested := public.count_working_days(GREATEST(NEW.start_date, v_year_start),
+                                             LEAST(NEW.end_date, v_year_end));
+
+    SELECT COALESCE(SUM(public.count_working_days(GREATEST(lr.start_date, v_year_start),
+                                                  LEAST(lr.end_date, v_year_end))), 0)
+    INTO v_used
+    FROM public.leave_requests lr
+    WHERE lr.employee_id = NEW.employee_id
+      AND lr.leave_type = NEW.leave_type
+      AND lr.status IN ('pending', 'approved')
+      AND lr.id <> NEW.id
+      AND lr.start_date <= v_year_end
+      AND lr.end_date >= v_year_start;
+
+    IF v_used + v_requested > v_entitlement THEN
+      RAISE EXCEPTION 'Leave request exceeds the remaining entitlement for this leave type'
+        USING ERRCODE = 'LV002',
+              DETAIL = format('Requested %s working days in %s; %s of %s remaining.',
+                              v_requested, v_year,
+                              GREATEST(v_entitlement - v_used, 0),
+                              v_entitlement);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- Employees may edit the details of a pending request, but the decision and
+-- cancellation columns are only written by the decide and cancel RPCs
+REVOKE UPDATE ON public.leave_requests FROM anon, authenticated;
+GRANT UPDATE (leave_type, start_date, end_date, description, custom_reason) ON public.leave_requests TO authenticated;
@@ -0,0 +1,33 @@
+-- GoTrue reports any error raised by handle_new_user() as "Database error
+-- saving new user", so the sign-up form runs the same invitation check first.
+--   LV010  signup requires a valid invitation
+CREATE OR REPLACE FUNCTION public.check_signup(p_email TEXT, p_invite_token TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT allow_open_signup FROM public.org_settings) THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.invitations
+    WHERE token = p_invite_token
+      AND lower(email) = lower(p_email)
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()
+  ) THEN
+    RAISE EXCEPTION 'Signup requires a valid invitation'
+      USING ERRCODE = 'LV010',
+            DETAIL = CASE
+              WHEN p_invite_token IS NOT NULL THEN
+                'This invitation has expired, was already used or was sent to another email address.'
+            END;
+  END IF;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- import_users works on a temporary table. Name pg_temp explicitly and last in
+-- its search_path, so temporary objects can't shadow the public tables it
+-- reads, and drop any table left by an earlier call in the same transaction.
+CREATE OR REPLACE FUNCTION public.import_users(p_rows JSONB, p_apply BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  row_number INTEGER,
+  email TEXT,
+  action TEXT,
+  error_code TEXT,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import users' USING ERRCODE = '42501';
+  END IF;
+
+  -- A preview and an apply in the same transaction would otherwise collide
+  DROP TABLE IF EXISTS pg_temp.import_rows;
+
+  CREATE TEMP TABLE import_rows ON COMMIT DROP AS
+  SELECT
+    r.ordinality::INTEGER AS row_number,
+    lower(trim(r.value ->> 'email')) AS email,
+    trim(COALESCE(r.value ->> 'first_name', '')) AS first_name,
+    trim(COALESCE(r.value ->> 'last_name', '')) AS last_name,
+    NULLIF(trim(r.value ->> 'department'), '') AS department,
+    d.id AS department_id,
+    NULLIF(lower(trim(r.value ->> 'manager_email')), '') AS manager_email,
+    COALESCE(NULLIF(lower(trim(r.value ->> 'role')), ''), 'employee') AS role,
+    p.id AS user_id,
+    CASE WHEN p.id IS NULL THEN 'invite' ELSE 'update' END AS action,
+    NULL::TEXT AS error_code,
+    NULL::TEXT AS error_message
+  FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(value, ordinality)
+  LEFT JOIN public.profiles p ON lower(p.email) = lower(trim(r.value ->> 'email'))
+  LEFT JOIN public.departments d ON lower(d.name) = lower(trim(r.value ->> 'department'));
+
+  -- Checks run in order; each row keeps the first error it hits
+  UPDATE import_rows i SET error_code = '22023', error_message = 'Email address is missing or invalid'
+  WHERE i.email IS NULL OR i.email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$';
+
+  UPDATE import_rows i SET error_code = '22023', error_message = 'First and last name are required'
+  WHERE i.error_code IS NULL AND (i.first_name = '' OR i.last_name = '');
+
+  UPDATE import_rows i SET error_code = '22023', error_message = 'Role must be employee, manager or admin'
+  WHERE i.error_code IS NULL AND i.role NOT IN ('employee', 'manager', 'admin');
+
+  UPDATE import_rows i SET error_code = 'P0002', error_message = 'Department does not exist'
+  WHERE i.error_code IS NULL AND i.department IS NOT NULL AND i.department_id IS NULL;
+
+  UPDATE import_rows i SET error_code = '23505', error_message = 'Email appears more than once in the file'
+  WHERE i.error_code IS NULL
+    AND (SELECT count(*) FROM import_rows d WHERE d.email = i.email) > 1;
+
+  UPDATE import_rows i SET error_code = 'LV008', error_message = 'An employee cannot be their own manager'
+  WHERE i.error_code IS NULL AND i.manager_email = i.email;
+
+  UPDATE import_rows i SET error_code = 'P0002', error_message = 'Manager is not in the file or the organization'
+  WHERE i.error_code IS NULL
+    AND i.manager_email IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM import_rows m WHERE m.email = i.manager_email)
+    AND NOT EXISTS (SELECT 1 FROM public.profiles m WHERE lower(m.email) = i.manager_email);
+
+  -- A manager must hold the manager role, either already or through this file
+  UPDATE import_rows i SET error_code = 'LV009', error_message = 'Manager does not have the manager role'
+  WHERE i.error_code IS NULL
+    AND i.manager_email IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM import_rows m WHERE m.email = i.manager_email AND m.role = 'manager')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.profiles m
+      WHERE lower(m.email) = i.manager_email AND public.has_role(m.id, 'manager')
+    );
+
+  -- Walk up the reporting lines as they would be after the import
+  WITH RECURSIVE lines AS (
+    SELECT i.email, i.manager_email FROM import_rows i
+    UNION ALL
+    SELECT lower(p.email), lower(m.email)
+    FROM public.profiles p
+    JOIN public.profiles m ON m.id = p.manager_id
+    WHERE NOT EXISTS (SELECT 1 FROM import_rows i WHERE i.email = lower(p.email))
+  ),
+  chain (start_email, email) AS (
+    SELECT i.email, i.manager_email FROM import_rows i WHERE i.manager_email IS NOT NULL
+    UNION
+    SELECT c.start_email, l.manager_email
+    FROM chain c
+    JOIN lines l ON l.email = c.email
+    WHERE l.manager_email IS NOT NULL
+  )
+  UPDATE import_rows i SET error_code = 'LV008', error_message = 'This manager would create a reporting cycle'
+  WHERE i.error_code IS NULL
+    AND EXISTS (SELECT 1 FROM chain c WHERE c.start_email = i.email AND c.email = i.email);
+
+  IF p_apply AND NOT EXISTS (SELECT 1 FROM import_rows i WHERE i.error_code IS NOT NULL) THEN
+    -- Existing users: the file is authoritative for department and manager
+    UPDATE public.profiles p
+    SET department_id = i.department_id,
+        manager_id = m.id
+    FROM import_rows i
+    LEFT JOIN public.profiles m ON lower(m.email) = i.manager_email
+    WHERE p.id = i.user_id;
+
+    INSERT INTO public.user_roles (user_id, role)
+    SELECT i.user_id, i.role::user_role
+    FROM import_rows i
+    WHERE i.user_id IS NOT NULL
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    -- New users: replace any open invitation with one from this import
+    UPDATE public.invitations v
+    SET revoked_at = now()
+    FROM import_rows i
+    WHERE i.user_id IS NULL
+      AND lower(v.email) = i.email
+      AND v.accepted_at IS NULL
+      AND v.revoked_at IS NULL;
+
+    INSERT INTO public.invitations (email, first_name, last_name, role, department_id, manager_id)
+    SELECT i.email, i.first_name, i.last_name, i.role::user_role, i.department_id, m.id
+    FROM import_rows i
+    LEFT JOIN public.profiles m ON lower(m.email) = i.manager_email
+    WHERE i.user_id IS NULL;
+
+    DELETE FROM public.pending_reporting_lines l
+    USING import_rows i
+    WHERE l.employee_email = i.email;
+
+    INSERT INTO public.pending_reporting_lines (employee_email, manager_email)
+    SELECT i.email, i.manager_email
+    FROM import_rows i
+    WHERE i.manager_email IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.profiles m WHERE lower(m.email) = i.manager_email);
+  END IF;
+
+  RETURN QUERY
+  SELECT i.row_number, i.email, i.action, i.error_code, i.error_message
+  FROM import_rows i
+  ORDER BY i.row_number;
+END;
+$$;
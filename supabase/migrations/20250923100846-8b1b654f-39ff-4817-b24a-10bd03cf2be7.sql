@@ -0,0 +1,60 @@
+-- Policy versions are the history of a scope, so deleting a department or
+-- location must not take them with it
+ALTER TABLE public.leave_policies
+  DROP CONSTRAINT leave_policies_department_id_fkey,
+  ADD CONSTRAINT leave_policies_department_id_fkey
+    FOREIGN KEY (department_id) REFERENCES public.departments(id) ON DELETE RESTRICT,
+  DROP CONSTRAINT leave_policies_location_id_fkey,
+  ADD CONSTRAINT leave_policies_location_id_fkey
+    FOREIGN KEY (location_id) REFERENCES public.locations(id) ON DELETE RESTRICT;
+
+-- Merging also moves the source's policies, so its members keep their
+-- overrides. Two sets of versions for one leave type can't share a scope.
+--   LV017  both departments have a policy for the same leave type
+CREATE OR REPLACE FUNCTION public.merge_departments(p_source_id UUID, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_leave_type TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge departments' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A department cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.departments WHERE id = p_target_id) THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT lt.name INTO v_leave_type
+  FROM public.leave_policies s
+  JOIN public.leave_policies t ON t.leave_type = s.leave_type AND t.department_id = p_target_id
+  JOIN public.leave_types lt ON lt.id = s.leave_type
+  WHERE s.department_id = p_source_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Both departments have a policy for the same leave type'
+      USING ERRCODE = 'LV017',
+            DETAIL = format('Both have their own %s policy.', lower(v_leave_type));
+  END IF;
+
+  UPDATE public.profiles SET department_id = p_target_id WHERE department_id = p_source_id;
+  UPDATE public.invitations SET department_id = p_target_id WHERE department_id = p_source_id;
+  UPDATE public.leave_policies SET department_id = p_target_id WHERE department_id = p_source_id;
+  UPDATE public.departments SET parent_id = NULL WHERE id = p_target_id AND parent_id = p_source_id;
+  UPDATE public.departments SET parent_id = p_target_id WHERE parent_id = p_source_id;
+
+  DELETE FROM public.departments WHERE id = p_source_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;